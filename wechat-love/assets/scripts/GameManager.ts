@@ -10,7 +10,7 @@ export * from './core/index';
 
 // 核心系统引用
 import { EventEmitter } from './core/EventEmitter';
-import { GameStateMachine, GameState } from './core/GameStateMachine';
+import { GameStateMachine, GameState, MenuState } from './core/GameStateMachine';
 import { DialogSystem } from './core/DialogSystem';
 import { CharacterSystem } from './core/CharacterSystem';
 import { SaveLoadSystem } from './core/SaveLoadSystem';
@@ -23,6 +23,17 @@ import { InventorySystem } from './core/InventorySystem';
 import { AchievementSystem } from './core/AchievementSystem';
 import { WechatAdapter } from './core/WechatAdapter';
 import { SettingsManager } from './core/SettingsManager';
+import { PlayerManager } from './core/PlayerManager';
+import { BacklogSystem } from './core/BacklogSystem';
+import { RollbackSystem } from './core/RollbackSystem';
+import { FlowchartSystem } from './core/FlowchartSystem';
+import { GlobalProgressManager } from './core/GlobalProgressManager';
+import { VariableStore } from './core/VariableStore';
+import { I18nManager } from './core/I18nManager';
+import { GalleryManager } from './core/GalleryManager';
+import { SceneEffects } from './core/SceneEffects';
+import { StageManager } from './core/StageManager';
+import { RandomService } from './core/RandomService';
 
 const { ccclass, property } = _decorator;
 
@@ -41,16 +52,27 @@ export class GameManager extends Component {
     public stateMachine: GameStateMachine;
     public dialog: DialogSystem;
     public characters: CharacterSystem;
+    public player: PlayerManager;
     public saveLoad: SaveLoadSystem;
     public story: StoryManager;
+    public backlog: BacklogSystem;
+    public rollback: RollbackSystem;
+    public flowchart: FlowchartSystem;
     public audio: AudioManager;
     public flags: FlagManager;
+    public variables: VariableStore;
     public resources: ResourceManager;
     public ui: UIManager;
     public inventory: InventorySystem;
     public achievements: AchievementSystem;
     public wechat: WechatAdapter;
     public settings: SettingsManager;
+    public progress: GlobalProgressManager;
+    public gallery: GalleryManager;
+    public scene: SceneEffects;
+    public stage: StageManager;
+    public random: RandomService;
+    public i18n: I18nManager;
 
     // 游戏状态
     private _initialized: boolean = false;
@@ -66,16 +88,27 @@ export class GameManager extends Component {
         this.stateMachine = GameStateMachine.instance;
         this.dialog = DialogSystem.instance;
         this.characters = CharacterSystem.instance;
+        this.player = PlayerManager.instance;
         this.saveLoad = SaveLoadSystem.instance;
         this.story = StoryManager.instance;
+        this.backlog = BacklogSystem.instance;
+        this.rollback = RollbackSystem.instance;
+        this.flowchart = FlowchartSystem.instance;
         this.audio = AudioManager.instance;
         this.flags = FlagManager.instance;
+        this.variables = VariableStore.instance;
         this.resources = ResourceManager.instance;
         this.ui = UIManager.instance;
         this.inventory = InventorySystem.instance;
         this.achievements = AchievementSystem.instance;
         this.wechat = WechatAdapter.instance;
         this.settings = SettingsManager.instance;
+        this.progress = GlobalProgressManager.instance;
+        this.gallery = GalleryManager.instance;
+        this.scene = SceneEffects.instance;
+        this.stage = StageManager.instance;
+        this.random = RandomService.instance;
+        this.i18n = I18nManager.instance;
     }
 
     /**
@@ -96,40 +129,67 @@ export class GameManager extends Component {
             // 2. 设置系统
             this.settings.init();
 
-            // 3. 资源加载
+            // 3. 随机数（依赖调试种子设置）
+            this.random.init();
+
+            // 4. 全局进度
+            this.progress.init();
+
+            // 5. 资源加载
             await this.resources.init();
 
-            // 4. 音频系统
+            // 6. 多语言
+            await this.i18n.init(this.settings.get('language'));
+
+            // 7. 音频系统
             await this.audio.init();
 
-            // 5. 存档系统
+            // 8. 存档系统
             this.saveLoad.init();
 
-            // 6. 角色系统
+            // 9. 角色系统
             await this.characters.init();
 
-            // 7. 剧情系统
+            // 10. 玩家数据
+            this.player.init();
+
+            // 11. 剧情系统
             await this.story.init();
 
-            // 8. 背包系统
+            // 12. CG画廊
+            await this.gallery.init();
+
+            // 13. 对话记录
+            this.backlog.init();
+
+            // 14. 回退系统
+            this.rollback.init();
+
+            // 15. 流程图
+            this.flowchart.init();
+
+            // 16. 背包系统
             this.inventory.init();
 
-            // 9. 成就系统
+            // 17. 成就系统
             this.achievements.init();
 
-            // 10. 标志位系统
+            // 18. 标志位系统
             this.flags.init();
 
-            // 11. UI系统
+            // 19. 剧情变量
+            this.variables.init();
+
+            // 20. UI系统
             // this.ui.init(this.node);
 
-            // 12. 设置事件监听
+            // 21. 设置事件监听
             this.setupEventListeners();
 
             this._initialized = true;
             console.log('[GameManager] ===== 游戏初始化完成 =====');
 
-            // 13. 开始游戏流程
+            // 22. 开始游戏流程
             this.startGameFlow();
 
         } catch (error) {
@@ -152,6 +212,25 @@ export class GameManager extends Component {
             } else if (oldState === GameState.PAUSE) {
                 this.resume();
             }
+
+            if (newState === GameState.GALLERY) {
+                this.ui.open('Gallery');
+            }
+        });
+
+        // 跳过未读设置
+        this.dialog.skipUnread(this.settings.get('skipUnread'));
+        this.settings.on('settingChanged', ({ key, newValue }) => {
+            if (key === 'skipUnread') {
+                this.dialog.skipUnread(newValue);
+            } else if (key === 'language') {
+                this.i18n.setLanguage(newValue);
+            }
+        });
+
+        // 结局结束后进入制作人员名单
+        this.story.on('storyEnded', () => {
+            this.showCredits();
         });
 
         // 好感度变化
@@ -161,12 +240,54 @@ export class GameManager extends Component {
             }
         });
 
+        // 好感等级提升（回想中的好感变化不提示）
+        this.characters.on('favorLevelUp', ({ characterName, levelName }) => {
+            if (this.story.isPlayingScene()) return;
+            this.ui.showToast(`💗 ${characterName} 好感等级提升: ${levelName}`);
+        });
+
         // 成就解锁
         this.achievements.on('achievementUnlocked', ({ def }) => {
             this.ui.showToast(`🏆 成就解锁: ${def.name}`);
             this.audio.playUnlock();
         });
 
+        // CG解锁
+        this.gallery.on('cgUnlocked', (cg) => {
+            this.ui.showToast(`🖼 CG解锁: ${cg.title}`);
+            this.audio.playUnlock();
+        });
+
+        // 回想：关闭画廊回放场景，结束后回到画廊
+        this.gallery.on('recallStarted', () => {
+            this.ui.close('Gallery');
+            this.stateMachine.changeState(GameState.PLAYING);
+        });
+        this.gallery.on('recallEnded', () => {
+            // 回想中产生的记录与回退点不属于当前进度
+            this.backlog.reset();
+            this.rollback.reset();
+            this.stateMachine.changeState(GameState.GALLERY);
+        });
+
+        // 流程图跳转：之前的记录与回退点不属于跳转后的进度
+        this.flowchart.on('jumped', () => {
+            this.ui.close('Flowchart');
+            this.backlog.reset();
+            this.rollback.reset();
+            this.stateMachine.changeState(GameState.PLAYING);
+        });
+
+        // 流程图记录保存失败（存储空间不足等）
+        this.flowchart.on('saveFailed', () => {
+            this.ui.showToast('⚠️ 流程图记录保存失败，存储空间可能不足');
+        });
+
+        // 对话记录回跳后，之后的回退点已失效
+        this.backlog.on('jumpedBack', () => {
+            this.rollback.reset();
+        });
+
         // 存档保存
         this.saveLoad.on('saveSuccess', () => {
             this.ui.showToast('💾 存档成功');
@@ -203,6 +324,9 @@ export class GameManager extends Component {
         // 重置所有系统
         this.resetGameData();
 
+        // 输入主角姓名
+        await this.askPlayerName();
+
         // 切换状态
         this.stateMachine.changeState(GameState.PLAYING);
 
@@ -215,6 +339,22 @@ export class GameManager extends Component {
         console.log('[GameManager] 新游戏开始');
     }
 
+    /**
+     * 打开姓名输入界面，等待玩家确认姓名
+     */
+    private askPlayerName(): Promise<void> {
+        return new Promise(resolve => {
+            this.stateMachine.setMenuState(MenuState.NEW_GAME);
+
+            this.player.once('nameChanged', () => {
+                this.ui.close('NameEntry');
+                resolve();
+            });
+
+            this.ui.open('NameEntry');
+        });
+    }
+
     /**
      * 继续游戏
      */
@@ -233,8 +373,12 @@ export class GameManager extends Component {
         // 切换状态
         this.stateMachine.changeState(GameState.PLAYING);
 
-        // 跳转到保存的进度
-        await this.story.jumpTo(data.chapter, data.node);
+        // 重新显示保存时的节点：状态已从存档恢复，不再应用节点效果与音频
+        const nodeId = data.story?.currentNode;
+        if (!nodeId || !this.story.replayNode(nodeId)) {
+            console.error(`[GameManager] 无法恢复剧情进度: ${data.story?.currentChapter}/${nodeId}`);
+            return;
+        }
 
         // 关闭读档界面
         this.ui.close('SaveLoad');
@@ -295,28 +439,14 @@ export class GameManager extends Component {
     }
 
     /**
-     * 应用存档数据
+     * 应用存档数据（各系统状态由SaveLoadSystem统一恢复）
      */
     private applySaveData(data: any) {
-        // 恢复角色数据
-        if (data.characters) {
-            this.characters.importData(data.characters);
-        }
-
-        // 恢复标志位
-        if (data.flags) {
-            this.flags.importData(data.flags);
-        }
+        this.saveLoad.applySaveData(data);
 
-        // 恢复背包
-        if (data.inventory) {
-            this.inventory.importData(data.inventory);
-        }
-
-        // 恢复成就
-        if (data.achievements) {
-            this.achievements.importData(data.achievements);
-        }
+        // 读档后不保留之前的对话记录与回退点
+        this.backlog.reset();
+        this.rollback.reset();
     }
 
     /**
@@ -324,10 +454,18 @@ export class GameManager extends Component {
      */
     private resetGameData() {
         this.characters.reset();
+        this.player.reset();
         this.flags.reset();
+        this.variables.reset();
+        this.scene.reset();
+        this.stage.reset();
+        this.random.reset();
+        this.audio.stopAmbient(false);
         this.inventory.reset();
         this.achievements.reset();
         this.story.reset();
+        this.backlog.reset();
+        this.rollback.reset();
         this.saveLoad.startPlayTime();
     }
 
@@ -384,21 +522,30 @@ export class GameManager extends Component {
     }
 
     /**
-     * 触发结局
+     * 触发结局（跳过结局判定，直接播放指定结局）
      */
     async triggerEnding(endingId: string) {
         console.log(`[GameManager] 触发结局: ${endingId}`);
-        
-        this.stateMachine.changeState(GameState.ENDING);
-        
-        // 播放结局动画
-        // ...
-        
-        // 返回标题
-        setTimeout(() => {
+        return this.story.playEnding(endingId);
+    }
+
+    /**
+     * 显示制作人员名单，关闭后返回标题
+     */
+    async showCredits() {
+        this.stateMachine.changeState(GameState.CREDITS);
+        this.audio.playBGM('bgm_credits');
+
+        const onClosed = ({ name }: { name: string }) => {
+            if (name !== 'Credits') return;
+            this.ui.off('UIClosed', onClosed);
+
             this.stateMachine.changeState(GameState.TITLE);
             this.showMainMenu();
-        }, 5000);
+        };
+        this.ui.on('UIClosed', onClosed);
+
+        await this.ui.open('Credits');
     }
 }
 
@@ -1,7 +1,7 @@
 // Cocos Creator 类型声明
 declare module 'cc' {
     export class Component {
-        protected node: Node;
+        node: Node;
         protected onLoad?(): void;
         protected start?(): void;
         protected update?(deltaTime: number): void;
@@ -17,20 +17,26 @@ declare module 'cc' {
         setSiblingIndex(index: number): void;
         setPosition(x: number, y: number, z?: number): void;
         setScale(x: number, y: number, z?: number): void;
-        on(event: string, callback: Function): void;
-        off(event: string, callback?: Function): void;
+        on(event: string, callback: Function, target?: any): void;
+        off(event: string, callback?: Function, target?: any): void;
         destroy(): void;
     }
 
     export class Sprite extends Component {}
-    export class Label extends Component {}
-    export class RichText extends Component {}
+    export class Label extends Component { string: string; }
+    export class RichText extends Component { string: string; }
     export class Button extends Component { node: Node; }
+    export class EditBox extends Component { node: Node; string: string; }
+    export class Asset {}
+    export class JsonAsset extends Asset { json: any; }
     export class SpriteFrame {}
     export class AudioClip {}
     export class AudioSource extends Component {}
     export class Canvas extends Component {}
     
+    export const resources: {
+        load<T extends Asset>(path: string, type: new () => T, onComplete: (err: Error | null, asset: T) => void): void;
+    };
     export const director: any;
     export const screen: any;
     export const view: any;
@@ -38,7 +44,10 @@ declare module 'cc' {
     export type ClassDecorator = (target: Function) => Function | void;
     export type PropertyDecorator = (target: Object, propertyKey: string | symbol) => void;
 
-    export function _decorator(target: any): any;
+    export const _decorator: {
+        ccclass(name?: string): any;
+        property(type?: any): any;
+    };
     export function ccclass(name?: string): ClassDecorator;
     export function property(type?: any): PropertyDecorator;
 
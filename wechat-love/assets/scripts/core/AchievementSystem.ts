@@ -4,6 +4,13 @@
  */
 
 import { EventEmitter } from './EventEmitter';
+import { Condition } from './StoryTypes';
+import { ConditionEvaluator } from './ConditionEvaluator';
+import { CharacterSystem } from './CharacterSystem';
+import { StoryManager } from './StoryManager';
+import { I18nManager } from './I18nManager';
+import { GalleryManager } from './GalleryManager';
+import { GlobalProgressManager } from './GlobalProgressManager';
 
 // 成就数据
 export interface AchievementData {
@@ -26,9 +33,9 @@ export interface AchievementState {
 
 // 成就条件
 export interface AchievementCondition {
-    type: 'flag' | 'favor' | 'chapter' | 'item' | 'play_time' | 'choice_count' | 'ending';
-    target?: string;
-    value: number;
+    type: 'flag' | 'favor' | 'favor_level' | 'chapter' | 'item' | 'play_time' | 'choice_count' | 'ending';
+    target?: string;        // ending 类型：结局类型（true/good/normal/bad），缺省为任意结局；cg 为CG解锁数
+    value: number;          // cg：需要解锁的数量，0 为全部已登记的CG
 }
 
 // 成就定义
@@ -49,19 +56,19 @@ const ACHIEVEMENT_DEFINITIONS: Array<AchievementData & { condition: AchievementC
         id: 'ach_friend_zone',
         name: '友谊深厚',
         description: '与某角色好感度达到好友',
-        condition: { type: 'favor', value: 400 },
+        condition: { type: 'favor_level', value: 5 },
     },
     {
         id: 'ach_closer',
         name: '更近一步',
         description: '与某角色好感度达到亲密',
-        condition: { type: 'favor', value: 550 },
+        condition: { type: 'favor_level', value: 6 },
     },
     {
         id: 'ach_true_love',
         name: '命中注定',
         description: '达成真结局',
-        condition: { type: 'ending', value: 1 },
+        condition: { type: 'ending', target: 'true', value: 1 },
     },
     {
         id: 'ach_play_5h',
@@ -85,7 +92,7 @@ const ACHIEVEMENT_DEFINITIONS: Array<AchievementData & { condition: AchievementC
         id: 'ach_completist',
         name: '收集达人',
         description: '解锁所有CG',
-        condition: { type: 'ending', target: 'cg', value: 10 },
+        condition: { type: 'ending', target: 'cg', value: 0 },
     },
     {
         id: 'ach_first_gift',
@@ -160,6 +167,12 @@ export class AchievementSystem extends EventEmitter {
         // this.on('flagChanged', () => this.checkAll());
         // this.on('favorChanged', () => this.checkAll());
         // this.on('chapterComplete', () => this.checkAll());
+        CharacterSystem.instance.on('favorLevelUp', () => {
+            // 回想中的好感变化不计入
+            if (StoryManager.instance.isPlayingScene()) return;
+            this.checkAll();
+        });
+        GlobalProgressManager.instance.on('endingRecorded', () => this.checkAll());
     }
 
     /**
@@ -197,36 +210,53 @@ export class AchievementSystem extends EventEmitter {
      * 检查成就条件
      */
     private checkCondition(condition: AchievementCondition): boolean {
+        const evaluator = ConditionEvaluator.instance;
+
         switch (condition.type) {
             case 'flag':
-                // return FlagManager.instance.get(condition.target!) === condition.value;
-                return false;
-            
+                // 成就配置中以 1/0 表示标志位开关
+                return evaluator.evaluate({ type: 'flag', target: condition.target, value: !!condition.value });
+
             case 'favor':
-                // 需要获取角色好感度
-                return false;
-            
+            case 'favor_level': {
+                // target 为 all：所有角色均达到；未指定：任一角色达到
+                const type = condition.type;
+                if (condition.target && condition.target !== 'all') {
+                    return evaluator.evaluate({ type, target: condition.target, value: condition.value });
+                }
+                const conditions: Condition[] = CharacterSystem.instance.getAllCharacters().map(c => ({
+                    type, target: c.id, value: condition.value,
+                }));
+                if (conditions.length === 0) return false;
+                return condition.target === 'all'
+                    ? evaluator.evaluateAll(conditions)
+                    : evaluator.evaluateAny(conditions);
+            }
+
             case 'chapter':
-                // 需要检查章节进度
-                return false;
-            
+                return evaluator.evaluate({ type: 'chapter', target: condition.target });
+
             case 'item':
-                // 需要检查物品
-                return false;
-            
+                return evaluator.evaluate({ type: 'item', target: condition.target, value: condition.value });
+
             case 'play_time':
-                // const playTime = SaveLoadSystem.instance.calculatePlayTime();
-                // return playTime >= condition.value;
-                return false;
-            
+                return evaluator.evaluate({ type: 'play_time', value: condition.value });
+
             case 'choice_count':
-                // 需要检查选择次数
-                return false;
-            
-            case 'ending':
-                // 需要检查结局
-                return false;
-            
+                return StoryManager.instance.getChoiceHistory().length >= condition.value;
+
+            case 'ending': {
+                if (condition.target === 'cg') {
+                    const { unlocked, total } = GalleryManager.instance.getCompletion();
+                    return total > 0 && unlocked >= (condition.value || total);
+                }
+                // 按全局达成过的结局计数（不随新游戏清空）
+                const endingCount = GlobalProgressManager.instance.getSeenEndings()
+                    .filter(id => !condition.target || CharacterSystem.instance.getEndingConfig(id)?.type === condition.target)
+                    .length;
+                return endingCount >= condition.value;
+            }
+
             default:
                 return false;
         }
@@ -340,7 +370,12 @@ export class AchievementSystem extends EventEmitter {
             }
 
             const state = this._achievements.get(def.id);
-            list.push({ ...def, ...state! });
+            list.push({
+                ...def,
+                ...state!,
+                name: I18nManager.instance.t(`achievement.${def.id}.name`, undefined, def.name),
+                description: I18nManager.instance.t(`achievement.${def.id}.description`, undefined, def.description),
+            });
         }
 
         return list;
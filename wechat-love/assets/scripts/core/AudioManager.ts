@@ -4,6 +4,7 @@
  */
 
 import { _decorator, Component, AudioSource, AudioClip } from 'cc';
+import { AudioCue } from './StoryTypes';
 
 const { ccclass, property } = _decorator;
 
@@ -24,6 +25,12 @@ export interface AudioConfig {
     fadeDuration?: number;
 }
 
+// 持续播放的音频状态（存档/快照使用）
+export interface AudioState {
+    bgm: string;
+    ambient: string;
+}
+
 @ccclass('AudioManager')
 export class AudioManager {
     private static _instance: AudioManager;
@@ -41,6 +48,7 @@ export class AudioManager {
 
     // 播放状态
     private _currentBGM: string = '';
+    private _currentAmbient: string = '';
     private _isMuted: boolean = false;
 
     // 音频资源缓存
@@ -52,8 +60,16 @@ export class AudioManager {
         { name: 'bgm_title', type: AudioType.BGM, resource: 'resources/bgm/title', loop: true },
         { name: 'bgm_chapter_0', type: AudioType.BGM, resource: 'resources/bgm/chapter_0', loop: true },
         { name: 'bgm_chapter_1', type: AudioType.BGM, resource: 'resources/bgm/chapter_1', loop: true },
+        { name: 'bgm_chapter_2', type: AudioType.BGM, resource: 'resources/bgm/chapter_2', loop: true },
         { name: 'bgm_date', type: AudioType.BGM, resource: 'resources/bgm/date', loop: true },
         { name: 'bgm_ending', type: AudioType.BGM, resource: 'resources/bgm/ending', loop: false },
+        { name: 'bgm_ending_good', type: AudioType.BGM, resource: 'resources/bgm/ending_good', loop: true },
+        { name: 'bgm_ending_bad', type: AudioType.BGM, resource: 'resources/bgm/ending_bad', loop: true },
+        { name: 'bgm_credits', type: AudioType.BGM, resource: 'resources/bgm/credits', loop: false },
+
+        // 环境音
+        { name: 'amb_campus', type: AudioType.AMBIENT, resource: 'resources/ambient/campus', loop: true },
+        { name: 'amb_wind', type: AudioType.AMBIENT, resource: 'resources/ambient/wind', loop: true },
 
         // SFX
         { name: 'sfx_dialog_next', type: AudioType.SFX, resource: 'resources/sfx/dialog_next' },
@@ -61,6 +77,7 @@ export class AudioManager {
         { name: 'sfx_favor_up', type: AudioType.SFX, resource: 'resources/sfx/favor_up' },
         { name: 'sfx_unlock', type: AudioType.SFX, resource: 'resources/sfx/unlock' },
         { name: 'sfx_button', type: AudioType.SFX, resource: 'resources/sfx/button' },
+        { name: 'sfx_basketball', type: AudioType.SFX, resource: 'resources/sfx/basketball' },
     ];
 
     private constructor() {}
@@ -131,14 +148,16 @@ export class AudioManager {
     stopBGM(fade: boolean = true) {
         if (!this._currentBGM) return;
 
+        // 立即清空，淡出期间切换的新BGM不受影响
+        console.log(`[AudioManager] 停止BGM: ${this._currentBGM}`);
+        this._currentBGM = '';
+
         if (fade) {
             // 淡出
             setTimeout(() => {
-                this._currentBGM = '';
                 // TODO: 停止播放
             }, 1000);
         } else {
-            this._currentBGM = '';
             // TODO: 立即停止
         }
     }
@@ -171,6 +190,49 @@ export class AudioManager {
         // TODO: 实现完整的淡入淡出
     }
 
+    // ==================== 环境音 ====================
+
+    /**
+     * 播放环境音（循环）
+     */
+    playAmbient(name: string, fade: boolean = true) {
+        if (this._currentAmbient === name) return;
+
+        const config = this._preloadList.find(a => a.name === name);
+        if (!config) {
+            console.warn(`[AudioManager] 未找到环境音: ${name}`);
+            return;
+        }
+
+        this._currentAmbient = name;
+        // TODO: 播放音频（fade 时淡入）
+        console.log(`[AudioManager] 播放环境音: ${name}`);
+    }
+
+    /**
+     * 停止环境音
+     */
+    stopAmbient(fade: boolean = true) {
+        if (!this._currentAmbient) return;
+
+        console.log(`[AudioManager] 停止环境音: ${this._currentAmbient}`);
+        this._currentAmbient = '';
+        // TODO: 停止播放（fade 时淡出）
+    }
+
+    /**
+     * 执行剧情中的BGM/环境音指令
+     */
+    applyCue(type: AudioType.BGM | AudioType.AMBIENT, cue: AudioCue) {
+        const { name, fade = true, stop = false } = typeof cue === 'string' ? { name: cue } : cue;
+
+        if (stop || !name) {
+            type === AudioType.BGM ? this.stopBGM(fade) : this.stopAmbient(fade);
+        } else {
+            type === AudioType.BGM ? this.playBGM(name, fade) : this.playAmbient(name, fade);
+        }
+    }
+
     // ==================== 音效播放 ====================
 
     /**
@@ -374,6 +436,42 @@ export class AudioManager {
     getCurrentBGM(): string {
         return this._currentBGM;
     }
+
+    /**
+     * 获取当前环境音名称
+     */
+    getCurrentAmbient(): string {
+        return this._currentAmbient;
+    }
+
+    // ==================== 存档相关 ====================
+
+    /**
+     * 导出持续播放的音频
+     */
+    exportData(): AudioState {
+        return {
+            bgm: this._currentBGM,
+            ambient: this._currentAmbient,
+        };
+    }
+
+    /**
+     * 恢复持续播放的音频（立即切换，不淡入淡出）
+     */
+    importData(data: Partial<AudioState>) {
+        if (data.bgm) {
+            this.playBGM(data.bgm, false);
+        } else {
+            this.stopBGM(false);
+        }
+
+        if (data.ambient) {
+            this.playAmbient(data.ambient, false);
+        } else {
+            this.stopAmbient(false);
+        }
+    }
 }
 
 // 导出单例
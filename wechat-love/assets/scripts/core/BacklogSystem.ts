@@ -0,0 +1,262 @@
+/**
+ * 对话记录 - BacklogSystem
+ * 记录已显示的对话/旁白与玩家的选择，供回看界面翻页浏览、重播语音、回跳到某句
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { StoryNode, NodeType, ChoiceData } from './StoryTypes';
+import { DialogSystem } from './DialogSystem';
+import { StoryManager } from './StoryManager';
+import { AudioManager } from './AudioManager';
+import { GameSnapshot, captureSnapshot, restoreSnapshot } from './StateSnapshot';
+
+// 记录条目
+export interface BacklogEntry {
+    id: number;
+    type: 'line' | 'choice';
+    chapterId: string;
+    nodeId: string;
+    speakerId?: string;
+    speakerName: string;     // 旁白与选项为空
+    text: string;
+    voice?: string;
+    canJumpBack: boolean;    // 是否可回跳到此句
+    time: number;
+}
+
+// 分页结果
+export interface BacklogPage {
+    entries: BacklogEntry[];
+    page: number;            // 0为最新一页
+    totalPages: number;
+}
+
+// 最大记录条数
+const MAX_ENTRIES = 200;
+
+export class BacklogSystem extends EventEmitter {
+    private static _instance: BacklogSystem;
+    public static get instance(): BacklogSystem {
+        if (!BacklogSystem._instance) {
+            BacklogSystem._instance = new BacklogSystem();
+        }
+        return BacklogSystem._instance;
+    }
+
+    // 记录（按时间顺序）
+    private _entries: BacklogEntry[] = [];
+
+    // 条目对应的快照（显示该句之前的状态）
+    private _snapshots: Map<number, GameSnapshot> = new Map();
+
+    // 即将显示的节点快照
+    private _pendingNodeId: string = '';
+    private _pendingSnapshot: GameSnapshot | null = null;
+
+    // 回退后重新显示的节点，已有记录，不再重复记录
+    private _replayNodeId: string = '';
+
+    private _nextId: number = 1;
+
+    private constructor() {
+        super();
+    }
+
+    /**
+     * 初始化
+     */
+    init() {
+        // 节点生效前捕获快照
+        StoryManager.instance.on('nodeEntering', (node: StoryNode) => {
+            if (node.type === NodeType.DIALOG || node.type === NodeType.NARRATION) {
+                this._pendingNodeId = node.id;
+                this._pendingSnapshot = captureSnapshot();
+            }
+        });
+
+        StoryManager.instance.on('choiceMade', (data: { nodeId: string; choice: ChoiceData }) => {
+            this.recordChoice(data.nodeId, data.choice);
+        });
+
+        DialogSystem.instance.on('lineShown', (data: { node: StoryNode; speakerName: string; text: string }) => {
+            this.recordLine(data.node, data.speakerName, data.text);
+        });
+
+        console.log('[BacklogSystem] 初始化完成');
+    }
+
+    // ==================== 记录 ====================
+
+    /**
+     * 记录对话/旁白
+     */
+    private recordLine(node: StoryNode, speakerName: string, text: string) {
+        if (this._replayNodeId === node.id) {
+            this._replayNodeId = '';
+            return;
+        }
+
+        const snapshot = this._pendingNodeId === node.id ? this._pendingSnapshot : null;
+        this._pendingNodeId = '';
+        this._pendingSnapshot = null;
+
+        const entry = this.push({
+            type: 'line',
+            nodeId: node.id,
+            speakerId: node.speaker,
+            speakerName,
+            text,
+            voice: node.voice,
+            canJumpBack: !!snapshot,
+        });
+
+        if (snapshot) {
+            this._snapshots.set(entry.id, snapshot);
+        }
+    }
+
+    /**
+     * 记录选择
+     */
+    private recordChoice(nodeId: string, choice: ChoiceData) {
+        this.push({
+            type: 'choice',
+            nodeId,
+            speakerName: '',
+            text: DialogSystem.instance.getChoiceText(choice),
+            canJumpBack: false,
+        });
+    }
+
+    /**
+     * 添加条目，超出上限时丢弃最早的记录
+     */
+    private push(data: Omit<BacklogEntry, 'id' | 'chapterId' | 'time'>): BacklogEntry {
+        const entry: BacklogEntry = {
+            ...data,
+            id: this._nextId++,
+            chapterId: StoryManager.instance.getProgress().chapter,
+            time: Date.now(),
+        };
+
+        this._entries.push(entry);
+        while (this._entries.length > MAX_ENTRIES) {
+            const removed = this._entries.shift()!;
+            this._snapshots.delete(removed.id);
+        }
+
+        this.emit('entryAdded', entry);
+        return entry;
+    }
+
+    /**
+     * 当前位置（最后一条记录的ID），回退点据此记录回退后应保留的记录
+     */
+    getMark(): number {
+        return this._nextId - 1;
+    }
+
+    /**
+     * 回退后：丢弃位置之后的记录；回退到的节点已有记录时，重新显示时不再记录
+     */
+    trimTo(mark: number, chapterId: string, nodeId: string) {
+        this._pendingNodeId = '';
+        this._pendingSnapshot = null;
+
+        const index = this._entries.findIndex(e => e.id > mark);
+        if (index !== -1) {
+            for (const removed of this._entries.splice(index)) {
+                this._snapshots.delete(removed.id);
+            }
+        }
+
+        const last = this._entries[this._entries.length - 1];
+        const recorded = last?.type === 'line' && last.chapterId === chapterId && last.nodeId === nodeId;
+        this._replayNodeId = recorded ? nodeId : '';
+        this.emit('trimmed', this._entries.length);
+    }
+
+    // ==================== 查询 ====================
+
+    /**
+     * 获取全部记录
+     */
+    getEntries(): BacklogEntry[] {
+        return [...this._entries];
+    }
+
+    /**
+     * 获取记录条数
+     */
+    getCount(): number {
+        return this._entries.length;
+    }
+
+    /**
+     * 获取某一页（0为最新一页，页内按时间顺序）
+     */
+    getPage(page: number, pageSize: number = 10): BacklogPage {
+        const totalPages = Math.max(1, Math.ceil(this._entries.length / pageSize));
+        const current = Math.max(0, Math.min(page, totalPages - 1));
+
+        const end = this._entries.length - current * pageSize;
+        const start = Math.max(0, end - pageSize);
+
+        return {
+            entries: this._entries.slice(start, end),
+            page: current,
+            totalPages,
+        };
+    }
+
+    // ==================== 操作 ====================
+
+    /**
+     * 重播语音
+     */
+    replayVoice(entryId: number): boolean {
+        const entry = this._entries.find(e => e.id === entryId);
+        if (!entry || !entry.voice) return false;
+
+        AudioManager.instance.playVoice(entry.voice);
+        return true;
+    }
+
+    /**
+     * 回跳到某句：恢复该句显示前的状态并重新播放，之后的记录被丢弃
+     */
+    async jumpBack(entryId: number): Promise<boolean> {
+        const index = this._entries.findIndex(e => e.id === entryId);
+        const snapshot = this._snapshots.get(entryId);
+        if (index === -1 || !snapshot) {
+            console.warn(`[BacklogSystem] 无法回跳: ${entryId}`);
+            return false;
+        }
+
+        const entry = this._entries[index];
+
+        // 该句重新播放时会再次记录
+        for (const removed of this._entries.splice(index)) {
+            this._snapshots.delete(removed.id);
+        }
+
+        restoreSnapshot(snapshot);
+        console.log(`[BacklogSystem] 回跳到: ${entry.chapterId}/${entry.nodeId}`);
+        this.emit('jumpedBack', entry);
+
+        return StoryManager.instance.jumpTo(entry.chapterId, entry.nodeId);
+    }
+
+    /**
+     * 重置
+     */
+    reset(): void {
+        this._entries = [];
+        this._snapshots.clear();
+        this._pendingNodeId = '';
+        this._pendingSnapshot = null;
+        this._replayNodeId = '';
+    }
+}
+
+export const Backlog = BacklogSystem.instance;
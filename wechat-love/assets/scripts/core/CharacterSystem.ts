@@ -5,6 +5,10 @@
 
 import { _decorator, Component, Node, Sprite, SpriteFrame, tween, Vec3 } from 'cc';
 import { EventEmitter } from './EventEmitter';
+import { I18nManager } from './I18nManager';
+import { ResourceManager, ResourceType } from './ResourceManager';
+import { ConditionEvaluator } from './ConditionEvaluator';
+import { Condition } from './StoryTypes';
 
 const { ccclass, property } = _decorator;
 
@@ -21,6 +25,28 @@ export interface CharacterData {
     events: string[];
 }
 
+// 结局类型（优先级从高到低）
+export type EndingType = 'true' | 'good' | 'normal' | 'bad';
+
+// 结局配置
+export interface EndingConfig {
+    id: string;
+    name: string;
+    type: EndingType;
+    characterId: string;
+    condition?: Condition;
+    chapter?: string;        // 结局章节，缺省时直接进入制作人员名单
+}
+
+// 好感等级变化事件（favorLevelUp / favorLevelDown）
+export interface FavorLevelChange {
+    characterId: string;
+    characterName: string;
+    oldLevel: number;
+    newLevel: number;
+    levelName: string;
+}
+
 // 角色姿态
 export enum CharacterPose {
     NORMAL = 'normal',
@@ -71,6 +97,16 @@ export class CharacterSystem extends EventEmitter {
     // 配置数据
     private _characterConfig: any = null;
 
+    // 结局配置
+    private _endingConfigs: EndingConfig[] = [];
+
+    // 好感等级门槛与名称（numbers.json），等级从1开始
+    private _levelThresholds: number[] = [];
+    private _levelNames: string[] = [];
+
+    // 各角色上次的好感等级，用于判断升降
+    private _favorLevels: Map<string, number> = new Map();
+
     private constructor() {
         super();
     }
@@ -81,6 +117,9 @@ export class CharacterSystem extends EventEmitter {
     async init() {
         // 加载角色配置
         await this.loadCharacterConfig();
+
+        // 加载好感等级配置
+        await this.loadFavorLevelConfig();
         
         // 初始化角色数据
         this.initializeCharacters();
@@ -92,66 +131,29 @@ export class CharacterSystem extends EventEmitter {
      * 加载角色配置
      */
     private async loadCharacterConfig() {
-        // TODO: 从JSON加载配置
-        // const config = await Resources.load('data/game-config/characters', JSON);
-        // this._characterConfig = config;
-        
-        // 使用模拟数据
-        this._characterConfig = {
-            characters: [
-                {
-                    id: 'heroine_1',
-                    name: '林雨晴',
-                    title: '学生会会长',
-                    sprites: {
-                        normal: 'char_001_normal',
-                        smile: 'char_001_smile',
-                        blush: 'char_001_blush',
-                        angry: 'char_001_angry',
-                        sad: 'char_001_sad',
-                        surprise: 'char_001_surprise',
-                        think: 'char_001_think',
-                        laugh: 'char_001_laugh',
-                    },
-                    maxFavor: 1000,
-                    defaultFavor: 0,
-                },
-                {
-                    id: 'heroine_2',
-                    name: '苏小晚',
-                    title: '元气学妹',
-                    sprites: {
-                        normal: 'char_002_normal',
-                        smile: 'char_002_smile',
-                        blush: 'char_002_blush',
-                        angry: 'char_002_angry',
-                        sad: 'char_002_sad',
-                        surprise: 'char_002_surprise',
-                        think: 'char_002_think',
-                        laugh: 'char_002_laugh',
-                    },
-                    maxFavor: 1000,
-                    defaultFavor: 0,
-                },
-                {
-                    id: 'heroine_3',
-                    name: '沈墨寒',
-                    title: '冰山校花',
-                    sprites: {
-                        normal: 'char_003_normal',
-                        smile: 'char_003_smile',
-                        blush: 'char_003_blush',
-                        angry: 'char_003_angry',
-                        sad: 'char_003_sad',
-                        surprise: 'char_003_surprise',
-                        think: 'char_003_think',
-                        laugh: 'char_003_laugh',
-                    },
-                    maxFavor: 1000,
-                    defaultFavor: 0,
-                },
-            ],
-        };
+        const config = await ResourceManager.instance.load<any>('game-config/characters', ResourceType.JSON);
+        if (!config || !Array.isArray(config.characters)) {
+            throw new Error('[CharacterSystem] characters.json 格式错误，缺少characters');
+        }
+
+        this._characterConfig = config;
+        console.log(`[CharacterSystem] 加载角色: ${config.characters.length}个`);
+    }
+
+    /**
+     * 加载好感等级配置
+     */
+    private async loadFavorLevelConfig() {
+        const config = await ResourceManager.instance.load<any>('game-config/numbers', ResourceType.JSON);
+        const favor = config?.gameBalance?.favor;
+        const thresholds = favor?.levelThresholds;
+        const names = favor?.levelNames;
+        if (!Array.isArray(thresholds) || thresholds.length === 0 || !Array.isArray(names) || names.length !== thresholds.length) {
+            throw new Error('[CharacterSystem] numbers.json 格式错误，levelThresholds 与 levelNames 必须一一对应');
+        }
+
+        this._levelThresholds = thresholds;
+        this._levelNames = names;
     }
 
     /**
@@ -173,6 +175,18 @@ export class CharacterSystem extends EventEmitter {
                 events: [],
             };
             this._characters.set(char.id, characterData);
+            this._favorLevels.set(char.id, this.getFavorLevel(char.id));
+
+            for (const ending of char.endings || []) {
+                this._endingConfigs.push({
+                    id: ending.id,
+                    name: ending.name,
+                    type: ending.type || 'normal',
+                    characterId: char.id,
+                    condition: ending.condition,
+                    chapter: ending.chapter,
+                });
+            }
         }
     }
 
@@ -183,6 +197,13 @@ export class CharacterSystem extends EventEmitter {
         return this._characters.get(characterId);
     }
 
+    /**
+     * 获取所有角色
+     */
+    getAllCharacters(): CharacterData[] {
+        return Array.from(this._characters.values());
+    }
+
     /**
      * 获取所有已解锁角色
      */
@@ -234,46 +255,60 @@ export class CharacterSystem extends EventEmitter {
     }
 
     /**
-     * 好感度等级
+     * 好感度等级（达到的最高门槛，从1开始）
      */
     getFavorLevel(characterId: string): number {
         const character = this._characters.get(characterId);
         if (!character) return 0;
 
-        const percent = character.favor / character.maxFavor;
-        
-        if (percent >= 0.85) return 7;  // 命中注定
-        if (percent >= 0.70) return 6;  // 恋人
-        if (percent >= 0.55) return 5;  // 亲密
-        if (percent >= 0.40) return 4;  // 好友
-        if (percent >= 0.25) return 3;  // 熟人
-        if (percent >= 0.10) return 2;  // 认识
-        return 1;  // 陌生人
+        let level = 1;
+        this._levelThresholds.forEach((threshold, index) => {
+            if (character.favor >= threshold) level = index + 1;
+        });
+        return level;
     }
 
     /**
      * 好感度等级名称
      */
     getFavorLevelName(characterId: string): string {
-        const level = this.getFavorLevel(characterId);
-        const names = ['陌生人', '认识', '熟人', '朋友', '好友', '亲密', '恋人', '命中注定'];
-        return names[level - 1] || '陌生人';
+        return this.getLevelName(this.getFavorLevel(characterId));
     }
 
     /**
-     * 检查好感度等级变化
+     * 等级名称
+     */
+    getLevelName(level: number): string {
+        return I18nManager.instance.t(`favor.level.${level}`, undefined, this._levelNames[level - 1] || '');
+    }
+
+    /**
+     * 检查好感度等级变化，与上次的等级比较
      */
     private checkFavorLevel(character: CharacterData) {
+        const oldLevel = this._favorLevels.get(character.id) ?? 1;
         const newLevel = this.getFavorLevel(character.id);
-        const oldLevel = this.getFavorLevel(character.id); // TODO: 需要存储旧等级
-        
-        if (newLevel !== oldLevel) {
-            this.emit('favorLevelUp', {
-                characterId: character.id,
-                characterName: character.name,
-                newLevel,
-                levelName: this.getFavorLevelName(character.id),
-            });
+        if (newLevel === oldLevel) return;
+
+        this._favorLevels.set(character.id, newLevel);
+
+        const change: FavorLevelChange = {
+            characterId: character.id,
+            characterName: character.name,
+            oldLevel,
+            newLevel,
+            levelName: this.getLevelName(newLevel),
+        };
+        console.log(`[CharacterSystem] 好感等级变化: ${character.name} ${oldLevel} -> ${newLevel} (${change.levelName})`);
+        this.emit(newLevel > oldLevel ? 'favorLevelUp' : 'favorLevelDown', change);
+    }
+
+    /**
+     * 同步各角色的等级（读档、重置后不触发等级变化事件）
+     */
+    private syncFavorLevels() {
+        for (const id of this._characters.keys()) {
+            this._favorLevels.set(id, this.getFavorLevel(id));
         }
     }
 
@@ -281,12 +316,24 @@ export class CharacterSystem extends EventEmitter {
      * 检查是否满足结局条件
      */
     checkEndingCondition(endingId: string, characterId: string): boolean {
-        const character = this._characters.get(characterId);
-        if (!character) return false;
+        const ending = this._endingConfigs.find(e => e.id === endingId && e.characterId === characterId);
+        if (!ending) return false;
 
-        // TODO: 从配置中读取结局条件并检查
-        // 简化版本：好感度 >= 800 触发好结局
-        return character.favor >= 800;
+        return !ending.condition || ConditionEvaluator.instance.evaluate(ending.condition);
+    }
+
+    /**
+     * 获取结局配置
+     */
+    getEndingConfig(endingId: string): EndingConfig | undefined {
+        return this._endingConfigs.find(e => e.id === endingId);
+    }
+
+    /**
+     * 获取所有结局配置（可按角色筛选）
+     */
+    getEndingConfigs(characterId?: string): EndingConfig[] {
+        return this._endingConfigs.filter(e => !characterId || e.characterId === characterId);
     }
 
     /**
@@ -481,6 +528,8 @@ export class CharacterSystem extends EventEmitter {
                 character.events = charData.events || [];
             }
         }
+
+        this.syncFavorLevels();
     }
 
     /**
@@ -500,6 +549,7 @@ export class CharacterSystem extends EventEmitter {
             char.endings = [];
             char.events = [];
         }
+        this.syncFavorLevels();
         
         this.hideAllCharacters();
         console.log('[CharacterSystem] 重置完成');
@@ -0,0 +1,132 @@
+/**
+ * 条件判定 - ConditionEvaluator
+ * 统一的条件表达式求值，剧情选项、分支、章节解锁、成就等均通过此处判定
+ */
+
+import { Condition, CompareOp } from './StoryTypes';
+import { StoryManager } from './StoryManager';
+import { CharacterSystem } from './CharacterSystem';
+import { InventorySystem } from './InventorySystem';
+import { SaveLoadSystem } from './SaveLoadSystem';
+import { PlayerManager } from './PlayerManager';
+import { VariableStore } from './VariableStore';
+
+export class ConditionEvaluator {
+    private static _instance: ConditionEvaluator;
+    public static get instance(): ConditionEvaluator {
+        if (!ConditionEvaluator._instance) {
+            ConditionEvaluator._instance = new ConditionEvaluator();
+        }
+        return ConditionEvaluator._instance;
+    }
+
+    private constructor() {}
+
+    /**
+     * 检查单个条件
+     */
+    evaluate(condition: Condition): boolean {
+        switch (condition.type) {
+            // ========== 组合条件 ==========
+            case 'all':
+                return this.evaluateAll(condition.conditions || []);
+
+            case 'any':
+                return this.evaluateAny(condition.conditions || []);
+
+            case 'not':
+                return !this.evaluateAll(condition.conditions || []);
+
+            // ========== 剧情 ==========
+            case 'flag':
+                return StoryManager.instance.getFlag(condition.target || '') === (condition.value ?? true);
+
+            case 'chapter':
+                // 已通关某章节（兼容 value 写章节ID 的旧写法）
+                return StoryManager.instance.isChapterCompleted(condition.target || condition.value);
+
+            case 'visited':
+                return StoryManager.instance.hasVisited(condition.target || '');
+
+            case 'var': {
+                // 数值变量按运算符比较，字符串/布尔变量判断相等
+                const value = VariableStore.instance.get(condition.target || '');
+                if (value === undefined) return false;
+                if (typeof value === 'number') {
+                    return this.compare(value, condition.op, condition.value);
+                }
+                return value === condition.value;
+            }
+
+            // ========== 角色 ==========
+            case 'favor': {
+                const character = CharacterSystem.instance.getCharacter(condition.target || '');
+                if (!character) return false;
+                return this.compare(character.favor, condition.op, condition.value);
+            }
+
+            case 'favor_level':
+                return this.compare(
+                    CharacterSystem.instance.getFavorLevel(condition.target || ''),
+                    condition.op,
+                    condition.value
+                );
+
+            // ========== 玩家 ==========
+            case 'item':
+                return this.compare(
+                    InventorySystem.instance.getItemCount(condition.target || ''),
+                    condition.op,
+                    condition.value ?? 1
+                );
+
+            case 'currency':
+                return this.compare(InventorySystem.instance.getCurrency(), condition.op, condition.value);
+
+            case 'attribute':
+                return this.compare(
+                    PlayerManager.instance.getAttribute(condition.target || ''),
+                    condition.op,
+                    condition.value
+                );
+
+            case 'play_time':
+                // 单位：秒
+                return this.compare(SaveLoadSystem.instance.calculatePlayTime(), condition.op, condition.value);
+
+            default:
+                console.warn(`[ConditionEvaluator] 未知条件类型: ${(condition as Condition).type}`);
+                return false;
+        }
+    }
+
+    /**
+     * 检查多个条件（与运算），空列表视为满足
+     */
+    evaluateAll(conditions: Condition[]): boolean {
+        return conditions.every(c => this.evaluate(c));
+    }
+
+    /**
+     * 检查多个条件（或运算），空列表视为不满足
+     */
+    evaluateAny(conditions: Condition[]): boolean {
+        return conditions.some(c => this.evaluate(c));
+    }
+
+    /**
+     * 数值比较，默认 >=
+     */
+    private compare(actual: number, op: CompareOp = '>=', expected: number): boolean {
+        switch (op) {
+            case '>=': return actual >= expected;
+            case '<=': return actual <= expected;
+            case '==': return actual === expected;
+            default:
+                console.warn(`[ConditionEvaluator] 未知比较运算符: ${op}`);
+                return false;
+        }
+    }
+}
+
+export const Conditions = ConditionEvaluator.instance;
@@ -5,65 +5,41 @@
 
 import { _decorator, Component, Node, Label, Sprite, RichText, tween, Vec3 } from 'cc';
 import { GameStateMachine, GameState, DialogState } from './GameStateMachine';
+import { ConditionEvaluator } from './ConditionEvaluator';
 import { EventEmitter } from './EventEmitter';
+import { NodeType, StoryNode, ChoiceData, Condition, Effect } from './StoryTypes';
+import { MarkupToken, ParsedMarkup, parseMarkup, renderMarkup, tokenLength } from './TextMarkup';
+import { PlayerManager } from './PlayerManager';
+import { VariableStore } from './VariableStore';
+import { I18nManager } from './I18nManager';
+import { SceneEffects } from './SceneEffects';
+import { AudioManager } from './AudioManager';
+import { StageManager } from './StageManager';
+import { GlobalProgressManager } from './GlobalProgressManager';
+import { SettingsManager } from './SettingsManager';
 
 const { ccclass, property } = _decorator;
 
-// 剧情节点类型
-export enum NodeType {
-    DIALOG = 'dialog',       // 对话
-    NARRATION = 'narration', // 旁白
-    CHOICE = 'choice',       // 选择
-    BRANCH = 'branch',       // 条件分支
-    EVENT = 'event',         // 事件
-    END = 'end',            // 结束
-}
+// 快进模式：read 仅快进已读文本，all 快进所有文本
+export type SkipMode = 'read' | 'all';
 
-// 剧情节点
-export interface StoryNode {
-    id: string;
-    type: NodeType;
-    speaker?: string;        // 说话者ID
-    content: string;         // 文本内容
-    background?: string;     // 背景图
-    character?: CharacterDisplay; // 角色显示
-    choices?: ChoiceData[];  // 选项列表
-    next?: string;           // 下一节点ID
-    conditions?: Condition[];// 触发条件
-    effects?: Effect[];      // 节点效果
+// 选项显示数据，达成过结局后附带标注
+export interface DisplayChoice extends ChoiceData {
+    chosen?: boolean;            // 任意周目中选过
+    favorHints?: FavorHint[];    // 好感度提示（开启选项提示时）
 }
 
-// 角色显示
-export interface CharacterDisplay {
-    id: string;
-    pose: string;            // 姿态
-    position: string;        // 位置 left/center/right
-    fade?: string;          // 淡入淡出
+// 选项对角色好感度的影响方向
+export interface FavorHint {
+    characterId: string;
+    direction: 'up' | 'down';
 }
 
-// 选择数据
-export interface ChoiceData {
-    id: string;
-    text: string;
-    next: string;
-    conditions?: Condition[];
-    effects?: Effect[];
-    favorChange?: Record<string, number>;
-}
+// 快进时每句停留时间 (ms)
+const SKIP_INTERVAL = 50;
 
-// 条件
-export interface Condition {
-    type: 'favor' | 'flag' | 'chapter' | 'item';
-    target: string;
-    value: any;
-}
-
-// 效果
-export interface Effect {
-    type: 'favor' | 'flag' | 'item' | 'scene' | 'unlock';
-    target: string;
-    value: any;
-}
+// 限时选项倒计时刷新间隔 (ms)
+const COUNTDOWN_TICK = 100;
 
 @ccclass('DialogSystem')
 export class DialogSystem extends EventEmitter {
@@ -85,17 +61,47 @@ export class DialogSystem extends EventEmitter {
     // 状态
     private _isTyping: boolean = false;
     private _currentNode: StoryNode = null!;
-    private _currentText: string = '';
+    private _currentChapterId: string = '';
     private _typingSpeed: number = 50;  // ms/字
     private _autoMode: boolean = false;
     private _autoDelay: number = 2000;
 
+    // 快进
+    private _skipMode: SkipMode | null = null;
+    private _skipUnread: boolean = false;
+    private _currentNodeRead: boolean = false;
+
+    // 限时选项倒计时（暂停时保留剩余时间）
+    private _countdownTimer: number = 0;
+    private _countdownTotal: number = 0;      // ms
+    private _countdownRemaining: number = 0;  // ms
+    private _countdownTickAt: number = 0;
+    private _countdownPaused: boolean = false;
+    private _paused: boolean = false;
+
     // 打字机定时器
     private _typingTimer: number = 0;
     private _displayedChars: number = 0;
 
+    // 当前文本的标记解析结果
+    private _markup: ParsedMarkup = { tokens: [], plainText: '', length: 0 };
+    private _markupNode: StoryNode | null = null;
+    private _tokenIndex: number = 0;    // 下一个待处理的片段
+    private _tokenOffset: number = 0;   // 当前文本片段已显示的字数
+    private _lineSpeed: number = 50;    // 当前句打字速度，可被[speed]修改
+
     private constructor() {
         super();
+
+        // 切换语言时刷新当前显示的文本
+        I18nManager.instance.on('languageChanged', () => this.refreshText());
+
+        // 切换选项提示时刷新当前选项
+        SettingsManager.instance.on('settingChanged', ({ key }) => {
+            if (key === 'choiceHints' && this._choicePanel?.active) {
+                this.showChoices(this.getDisplayChoices(this._currentNode));
+            }
+        });
     }
 
     /**
@@ -114,27 +120,20 @@ export class DialogSystem extends EventEmitter {
 
     /**
      * 播放剧情节点
+     * @param read 该节点是否曾经读过（用于快进已读）
+     * @param chapterId 节点所在章节（用于查询选项是否选过）
      */
-    playNode(node: StoryNode) {
+    playNode(node: StoryNode, read: boolean = false, chapterId: string = '') {
+        this.stopCountdown();
         this._currentNode = node;
+        this._currentChapterId = chapterId;
+        this._currentNodeRead = read;
         
         // 应用节点效果
         if (node.effects) {
             this.applyEffects(node.effects);
         }
 
-        // 切换背景
-        if (node.background) {
-            this.changeBackground(node.background);
-        }
-
-        // 显示角色
-        if (node.character) {
-            this.showCharacter(node.character);
-        } else {
-            this.hideAllCharacters();
-        }
-
         // 处理不同节点类型
         switch (node.type) {
             case NodeType.DIALOG:
@@ -145,7 +144,9 @@ export class DialogSystem extends EventEmitter {
                 this.playChoice(node);
                 break;
             case NodeType.END:
-                this.playEnding();
+            case NodeType.BRANCH:
+                // 结束节点与分支节点由StoryManager处理，不进入对话框
+                console.warn(`[DialogSystem] ${node.type}节点不应直接播放: ${node.id}`);
                 break;
             default:
                 this.next();
@@ -161,49 +162,118 @@ export class DialogSystem extends EventEmitter {
         stateMachine.setDialogState(DialogState.TYPING);
 
         // 设置说话者
+        const speakerName = node.speaker ? this.getSpeakerName(node.speaker) : '';
         if (node.speaker) {
-            this._speakerLabel.string = this.getSpeakerName(node.speaker);
+            this._speakerLabel.string = speakerName;
             this._speakerLabel.node.active = true;
         } else {
             this._speakerLabel.node.active = false;
         }
 
+        // 快进模式下遇到未读文本时停止
+        if (this._skipMode === 'read' && !this._currentNodeRead) {
+            this.stopSkip('unread');
+        }
+
+        // 语音：新的一句打断上一句，快进时不播放
+        AudioManager.instance.stopVoice();
+        if (node.voice && !this._skipMode) {
+            AudioManager.instance.playVoice(node.voice);
+        }
+
         // 打字机效果
-        this._currentText = node.content;
-        this._displayedChars = 0;
+        this.setContent(node);
         this._isTyping = true;
         
         // 显示对话框
         this._dialogBox.active = true;
         
-        this.startTyping();
+        if (this._skipMode) {
+            this.skipLine();
+        } else {
+            this.startTyping();
+        }
+
+        // 通知文本已显示（供对话记录使用）
+        this.emit('lineShown', { node, speakerName, text: this._markup.plainText });
     }
 
     /**
      * 播放选项
+     * 快进在选项处停止；自动播放不会替玩家选择，限时选项由倒计时决定
      */
     private playChoice(node: StoryNode) {
+        this.stopSkip('choice');
+
         const stateMachine = GameStateMachine.instance;
         stateMachine.changeState(GameState.CHOICE);
 
         // 隐藏打字机，直接显示完整文本
+        this.clearTypingTimer();
         this._isTyping = false;
-        this._contentLabel.string = this._currentText;
+        if (this._markupNode !== node) {
+            this.setContent(node);
+        }
+        this.revealAll();
 
-        // 筛选可用选项
+        // 显示选项面板
+        this.showChoices(this.getDisplayChoices(node));
+
+        if (node.timeLimit && this._countdownTotal === 0) {
+            this.startCountdown(node.timeLimit);
+        }
+    }
+
+    /**
+     * 筛选可用选项，并转换为显示文本与标注
+     */
+    private getDisplayChoices(node: StoryNode): DisplayChoice[] {
         const availableChoices = node.choices?.filter(choice => {
             if (!choice.conditions) return true;
             return this.checkConditions(choice.conditions);
         }) || [];
 
-        // 显示选项面板
-        this.showChoices(availableChoices);
+        return availableChoices.map(choice => ({
+            ...choice,
+            text: this.getChoiceText(choice),
+            ...this.getChoiceAnnotation(node, choice),
+        }));
+    }
+
+    /**
+     * 选项标注：达成过结局后标记任意周目中选过的选项，开启选项提示时附带好感度变化方向
+     */
+    private getChoiceAnnotation(node: StoryNode, choice: ChoiceData): Partial<DisplayChoice> {
+        const progress = GlobalProgressManager.instance;
+        if (!progress.isChoiceHintsUnlocked()) return {};
+
+        const annotation: Partial<DisplayChoice> = {
+            chosen: progress.hasChosen(this._currentChapterId, node.id, choice.id),
+        };
+
+        if (SettingsManager.instance.get('choiceHints')) {
+            annotation.favorHints = Object.entries(choice.favorChange || {})
+                .filter(([, delta]) => delta !== 0)
+                .map(([characterId, delta]) => ({ characterId, direction: delta > 0 ? 'up' : 'down' }));
+        }
+
+        return annotation;
+    }
+
+    /**
+     * 获取选项显示文本（多语言与插值，不支持标记指令）
+     */
+    getChoiceText(choice: ChoiceData): string {
+        const text = choice.textKey
+            ? I18nManager.instance.t(choice.textKey, undefined, choice.text)
+            : choice.text;
+        return this.interpolate(text);
     }
 
     /**
      * 显示选项
      */
-    private showChoices(choices: ChoiceData[]) {
+    private showChoices(choices: DisplayChoice[]) {
         this._choicePanel.active = true;
         
         // TODO: 动态创建选项按钮
@@ -218,26 +288,13 @@ export class DialogSystem extends EventEmitter {
         const choice = this._currentNode.choices?.find(c => c.id === choiceId);
         if (!choice) return;
 
-        // 应用选项效果
-        if (choice.effects) {
-            this.applyEffects(choice.effects);
-        }
-
-        // 好感度变化
-        if (choice.favorChange) {
-            for (const [charId, delta] of Object.entries(choice.favorChange)) {
-                this.changeFavor(charId, delta);
-            }
-        }
+        this.stopCountdown();
 
         // 隐藏选项面板
         this._choicePanel.active = false;
 
-        // 跳转到下一节点
-        if (choice.next) {
-            // 通知StorySystem加载下一节点
-            this.emit('nodeSelected', choice.next);
-        }
+        // 通知StoryManager应用选项效果并跳转
+        this.emit('choiceSelected', choice);
     }
 
     /**
@@ -246,44 +303,255 @@ export class DialogSystem extends EventEmitter {
     next() {
         if (this._isTyping) {
             // 快进：直接显示完整文本
+            this.clearTypingTimer();
             this._isTyping = false;
-            this._contentLabel.string = this._currentText;
-            this._displayedChars = this._currentText.length;
+            this.revealAll();
+            this.onTypingComplete();
             return;
         }
 
-        // 已经是完整文本，进入下一节点
-        if (this._currentNode.next) {
-            this.emit('requestNode', this._currentNode.next);
-        } else {
-            // 没有下一节点，结束
-            this.playEnding();
+        // 已经是完整文本，进入下一节点（没有下一节点时由StoryManager结束章节）
+        this.emit('requestNode', this._currentNode.next);
+    }
+
+    // ==================== 限时选项 ====================
+
+    /**
+     * 开始倒计时，UI 通过 choiceCountdown 事件刷新进度
+     */
+    private startCountdown(seconds: number) {
+        this._countdownTotal = seconds * 1000;
+        this._countdownRemaining = this._countdownTotal;
+        this._countdownPaused = this._paused;
+
+        this.emit('choiceCountdownStarted', { total: this._countdownTotal, defaultChoiceId: this.getTimeoutChoice()?.id });
+        if (!this._paused) {
+            this.scheduleCountdown();
+        }
+    }
+
+    private scheduleCountdown() {
+        this._countdownTickAt = Date.now();
+        this._countdownTimer = window.setTimeout(() => this.tickCountdown(), Math.min(COUNTDOWN_TICK, this._countdownRemaining));
+    }
+
+    private tickCountdown() {
+        this._countdownTimer = 0;
+        this._countdownRemaining = Math.max(0, this._countdownRemaining - (Date.now() - this._countdownTickAt));
+        this.emit('choiceCountdown', { remaining: this._countdownRemaining, total: this._countdownTotal });
+
+        if (this._countdownRemaining > 0) {
+            this.scheduleCountdown();
+            return;
+        }
+
+        const choice = this.getTimeoutChoice();
+        this.stopCountdown();
+        if (!choice) return;
+
+        console.log(`[DialogSystem] 选项超时，自动选择: ${choice.id}`);
+        this.emit('choiceTimeout', choice);
+        this.selectChoice(choice.id);
+    }
+
+    /**
+     * 超时选择的选项：默认选项可用时选择默认选项，否则选择第一个可用选项
+     */
+    private getTimeoutChoice(): ChoiceData | undefined {
+        const node = this._currentNode;
+        const choices = this.getDisplayChoices(node);
+        return choices.find(c => c.id === node.defaultChoiceId) || choices[0];
+    }
+
+    /**
+     * 停止倒计时
+     */
+    private stopCountdown() {
+        if (this._countdownTimer) {
+            clearTimeout(this._countdownTimer);
+            this._countdownTimer = 0;
+        }
+        if (this._countdownTotal > 0) {
+            this._countdownTotal = 0;
+            this._countdownRemaining = 0;
+            this._countdownPaused = false;
+            this.emit('choiceCountdownStopped');
         }
     }
 
+    /**
+     * 是否有正在进行的倒计时（暂停中也算）
+     */
+    hasCountdown(): boolean {
+        return this._countdownTotal > 0;
+    }
+
+    /**
+     * 剩余时间 (ms)
+     */
+    getCountdownRemaining(): number {
+        return this._countdownRemaining;
+    }
+
+    // ==================== 文本显示 ====================
+
+    /**
+     * 解析节点文本（插值与内联标记）
+     */
+    private setContent(node: StoryNode) {
+        const content = node.contentKey
+            ? I18nManager.instance.t(node.contentKey, undefined, node.content)
+            : node.content;
+
+        this._markup = parseMarkup(content, key => this.resolveVariable(key));
+        this._markupNode = node;
+        this._tokenIndex = 0;
+        this._tokenOffset = 0;
+        this._displayedChars = 0;
+        this._lineSpeed = this._typingSpeed;
+    }
+
+    /**
+     * 刷新当前文本（切换语言后），正在打字时直接显示全文
+     */
+    private refreshText() {
+        const node = this._currentNode;
+        if (!node || !this._dialogBox?.active) return;
+
+        if (node.speaker) {
+            this._speakerLabel.string = this.getSpeakerName(node.speaker);
+        }
+
+        const wasTyping = this._isTyping;
+        this.clearTypingTimer();
+        this._isTyping = false;
+        this.setContent(node);
+        this.revealAll();
+
+        if (this._choicePanel?.active) {
+            this.showChoices(this.getDisplayChoices(node));
+        } else if (wasTyping) {
+            this.onTypingComplete();
+        }
+
+        this.emit('textRefreshed', node);
+    }
+
+    /**
+     * 获取插值后的纯文本（去除标记）
+     */
+    interpolate(text: string): string {
+        return parseMarkup(text, key => this.resolveVariable(key)).plainText;
+    }
+
+    /**
+     * 文本插值：{player_name}、{var:x}
+     */
+    private resolveVariable(key: string): string | undefined {
+        if (key === 'player_name') {
+            return PlayerManager.instance.getName();
+        }
+        if (key.startsWith('var:')) {
+            const value = VariableStore.instance.get(key.slice(4));
+            return value === undefined ? undefined : String(value);
+        }
+        return undefined;
+    }
+
+    /**
+     * 刷新文本显示（旁白为灰色）
+     */
+    private renderContent() {
+        const text = renderMarkup(this._markup.tokens, this._displayedChars);
+        this._contentLabel.string = this._speakerLabel.node.active
+            ? text
+            : `<color=#888888>${text}</color>`;
+    }
+
+    /**
+     * 立即显示全部文本，剩余指令中只执行表情与速度切换
+     */
+    private revealAll() {
+        const tokens = this._markup.tokens;
+        for (; this._tokenIndex < tokens.length; this._tokenIndex++) {
+            this.runCommand(tokens[this._tokenIndex], true);
+        }
+        this._tokenOffset = 0;
+        this._displayedChars = this._markup.length;
+        this.renderContent();
+    }
+
     /**
      * 打字机效果
      */
     private startTyping() {
-        this._typingTimer = window.setInterval(() => {
-            if (!this._isTyping) {
-                this.clearTypingTimer();
+        // 回退/回跳时可能仍在打字，先清除旧定时器
+        this.clearTypingTimer();
+        this.scheduleTyping(this._lineSpeed);
+    }
+
+    private scheduleTyping(delay: number) {
+        this._typingTimer = window.setTimeout(() => this.typeNext(), delay);
+    }
+
+    /**
+     * 显示下一个可见字符，途经的指令按顺序执行
+     */
+    private typeNext() {
+        this._typingTimer = 0;
+        if (!this._isTyping) return;
+
+        const tokens = this._markup.tokens;
+        while (this._tokenIndex < tokens.length) {
+            const token = tokens[this._tokenIndex];
+
+            if (token.type === 'text') {
+                if (this._tokenOffset < tokenLength(token)) {
+                    this._tokenOffset++;
+                    this._displayedChars++;
+                    this.renderContent();
+                    this.scheduleTyping(this._lineSpeed);
+                    return;
+                }
+                this._tokenIndex++;
+                this._tokenOffset = 0;
+                continue;
+            }
+
+            this._tokenIndex++;
+            if (token.type === 'wait') {
+                this.scheduleTyping(token.ms);
                 return;
             }
+            this.runCommand(token, false);
+        }
+
+        this.onTypingComplete();
+    }
 
-            this._displayedChars++;
-            
-            // 逐步显示文本
-            const displayText = this._currentText.substring(0, this._displayedChars);
-            this._contentLabel.string = this._speakerLabel.node.active 
-                ? displayText 
-                : `<color=#888888>${displayText}</color>`;
-
-            // 检查是否完成
-            if (this._displayedChars >= this._currentText.length) {
-                this.onTypingComplete();
+    /**
+     * 执行文本指令
+     * @param instant 是否为立即显示全文（跳过停顿与震动）
+     */
+    private runCommand(token: MarkupToken, instant: boolean) {
+        switch (token.type) {
+            case 'speed':
+                this._lineSpeed = token.ms ?? this._typingSpeed;
+                break;
+            case 'pose': {
+                // 更换当前说话者（高亮角色）的姿态
+                const characterId = StageManager.instance.getSpeaker();
+                if (characterId) {
+                    StageManager.instance.setPose(characterId, token.pose);
+                }
+                break;
             }
-        }, this._typingSpeed);
+            case 'shake':
+                if (!instant) {
+                    SceneEffects.instance.shake();
+                }
+                break;
+        }
     }
 
     /**
@@ -311,47 +579,23 @@ export class DialogSystem extends EventEmitter {
 
     private clearTypingTimer() {
         if (this._typingTimer) {
-            clearInterval(this._typingTimer);
+            clearTimeout(this._typingTimer);
             this._typingTimer = 0;
         }
     }
 
     /**
-     * 切换背景
+     * 收起对话框与选项面板（剧情结束时）
      */
-    private changeBackground(bgName: string) {
-        // TODO: 加载并切换背景
-        console.log(`[DialogSystem] 切换背景: ${bgName}`);
-        this.emit('backgroundChanged', bgName);
-    }
-
-    /**
-     * 显示角色
-     */
-    private showCharacter(display: CharacterDisplay) {
-        // TODO: 加载角色立绘
-        console.log(`[DialogSystem] 显示角色: ${display.id} - ${display.pose}`);
-        this.emit('characterShown', display);
-    }
-
-    /**
-     * 隐藏所有角色
-     */
-    private hideAllCharacters() {
-        this.emit('allCharactersHidden');
-    }
+    hide() {
+        this.clearTypingTimer();
+        this.stopCountdown();
+        this._isTyping = false;
 
-    /**
-     * 播放结局
-     */
-    private playEnding() {
-        const stateMachine = GameStateMachine.instance;
-        stateMachine.changeState(GameState.ENDING);
-        
         this._dialogBox.active = false;
         this._choicePanel.active = false;
-        
-        this.emit('endingTriggered');
+
+        this.emit('hidden');
     }
 
     /**
@@ -401,22 +645,24 @@ export class DialogSystem extends EventEmitter {
      * 检查条件
      */
     private checkConditions(conditions: Condition[]): boolean {
-        // TODO: 实现条件检查
-        return true;
+        return ConditionEvaluator.instance.evaluateAll(conditions);
     }
 
     /**
      * 获取说话者名称
      */
     private getSpeakerName(speakerId: string): string {
-        // TODO: 从角色配置中获取名称
+        if (speakerId === 'player') {
+            return PlayerManager.instance.getName();
+        }
+
+        // 原文名称，译文见字符串表 character.<ID>.name
         const names: Record<string, string> = {
-            'player': '我',
             'heroine_1': '林雨晴',
             'heroine_2': '苏小晚',
             'heroine_3': '沈墨寒',
         };
-        return names[speakerId] || speakerId;
+        return I18nManager.instance.t(`character.${speakerId}.name`, undefined, names[speakerId] || speakerId);
     }
 
     /**
@@ -435,27 +681,105 @@ export class DialogSystem extends EventEmitter {
     }
 
     /**
-     * 跳过未读
+     * 跳过未读（开启后快进默认不区分已读/未读）
      */
     skipUnread(enabled: boolean) {
-        // TODO: 实现跳过未读
+        this._skipUnread = enabled;
+    }
+
+    // ==================== 快进 ====================
+
+    /**
+     * 开始快进，遇到选项、章节切换时停止；read 模式下遇到未读文本也会停止
+     */
+    startSkip(mode: SkipMode = this._skipUnread ? 'all' : 'read') {
+        if (this._skipMode === mode) return;
+
+        this._skipMode = mode;
+        console.log(`[DialogSystem] 开始快进: ${mode}`);
+        this.emit('skipStarted', mode);
+
+        // 当前句
+        if (this._currentNode && this._dialogBox?.active) {
+            if (mode === 'read' && !this._currentNodeRead) {
+                this.stopSkip('unread');
+                return;
+            }
+            this.skipLine();
+        }
+    }
+
+    /**
+     * 停止快进
+     */
+    stopSkip(reason: string = 'manual') {
+        if (!this._skipMode) return;
+
+        this._skipMode = null;
+        console.log(`[DialogSystem] 停止快进: ${reason}`);
+        this.emit('skipStopped', reason);
+    }
+
+    /**
+     * 是否正在快进
+     */
+    isSkipping(): boolean {
+        return this._skipMode !== null;
+    }
+
+    /**
+     * 获取快进模式
+     */
+    getSkipMode(): SkipMode | null {
+        return this._skipMode;
+    }
+
+    /**
+     * 快进当前句：直接显示全文并进入下一句
+     */
+    private skipLine() {
+        this.clearTypingTimer();
+        this._isTyping = false;
+        this.revealAll();
+
+        const node = this._currentNode;
+        setTimeout(() => {
+            // 期间被停止或已切换到其他节点
+            if (!this._skipMode || this._currentNode !== node) return;
+            this.next();
+        }, SKIP_INTERVAL);
     }
 
     /**
      * 暂停
      */
     pause() {
+        this._paused = true;
         if (this._isTyping) {
             this.clearTypingTimer();
         }
+
+        // 冻结倒计时，保留剩余时间
+        if (this._countdownTimer) {
+            clearTimeout(this._countdownTimer);
+            this._countdownTimer = 0;
+            this._countdownRemaining = Math.max(0, this._countdownRemaining - (Date.now() - this._countdownTickAt));
+            this._countdownPaused = true;
+        }
     }
 
     /**
      * 恢复
      */
     resume() {
-        if (this._isTyping && this._displayedChars < this._currentText.length) {
+        this._paused = false;
+        if (this._isTyping && !this._typingTimer) {
             this.startTyping();
         }
+
+        if (this._countdownPaused) {
+            this._countdownPaused = false;
+            this.scheduleCountdown();
+        }
     }
 }
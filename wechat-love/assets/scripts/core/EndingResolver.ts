@@ -0,0 +1,71 @@
+/**
+ * 结局判定 - EndingResolver
+ * 主线剧情结束时，按characters.json中各角色的结局条件求值，按优先级选出结局并记录
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { CharacterSystem, EndingConfig, EndingType } from './CharacterSystem';
+import { GlobalProgressManager } from './GlobalProgressManager';
+
+// 结局优先级：真 > 好 > 普通 > 坏
+const ENDING_PRIORITY: Record<EndingType, number> = {
+    true: 4,
+    good: 3,
+    normal: 2,
+    bad: 1,
+};
+
+export class EndingResolver extends EventEmitter {
+    private static _instance: EndingResolver;
+    public static get instance(): EndingResolver {
+        if (!EndingResolver._instance) {
+            EndingResolver._instance = new EndingResolver();
+        }
+        return EndingResolver._instance;
+    }
+
+    private constructor() {
+        super();
+    }
+
+    /**
+     * 获取满足条件的结局（按优先级排序，同级时好感度高的角色优先，再按配置顺序）
+     */
+    getAvailableEndings(): EndingConfig[] {
+        const characters = CharacterSystem.instance;
+        const favorOf = (ending: EndingConfig) => characters.getCharacter(ending.characterId)?.favor || 0;
+
+        return characters.getEndingConfigs()
+            .filter(ending => characters.checkEndingCondition(ending.id, ending.characterId))
+            .sort((a, b) =>
+                (ENDING_PRIORITY[b.type] || 0) - (ENDING_PRIORITY[a.type] || 0)
+                || favorOf(b) - favorOf(a)
+            );
+    }
+
+    /**
+     * 选出结局，没有满足条件的结局时返回null
+     */
+    resolve(): EndingConfig | null {
+        const ending = this.getAvailableEndings()[0] || null;
+
+        if (ending) {
+            console.log(`[EndingResolver] 判定结局: ${ending.id} (${ending.type})`);
+            this.emit('endingResolved', ending);
+        } else {
+            console.warn('[EndingResolver] 没有满足条件的结局');
+        }
+
+        return ending;
+    }
+
+    /**
+     * 记录结局：本周目解锁，并计入全局结局记录
+     */
+    record(ending: EndingConfig) {
+        CharacterSystem.instance.unlockEnding(ending.characterId, ending.id);
+        GlobalProgressManager.instance.recordEnding(ending.id);
+    }
+}
+
+export const Endings = EndingResolver.instance;
@@ -4,6 +4,8 @@
  */
 
 import { EventEmitter } from './EventEmitter';
+import { Condition } from './StoryTypes';
+import { ConditionEvaluator } from './ConditionEvaluator';
 
 export interface FlagData {
     key: string;
@@ -150,37 +152,15 @@ export class FlagManager extends EventEmitter {
     /**
      * 检查是否满足条件
      */
-    checkCondition(condition: { type: string; target: string; value: any }): boolean {
-        switch (condition.type) {
-            case 'flag':
-                return this.get(condition.target) === condition.value;
-            
-            case 'favor':
-                // 需要结合CharacterSystem
-                // return CharacterSystem.instance.getFavor(condition.target) >= condition.value;
-                return false;
-            
-            case 'chapter':
-                // 需要结合StoryManager
-                // return StoryManager.instance.getProgress().chapter === condition.value;
-                return false;
-            
-            case 'item':
-                // 需要结合InventorySystem
-                // return InventorySystem.instance.hasItem(condition.target);
-                return false;
-            
-            default:
-                console.warn(`[FlagManager] 未知条件类型: ${condition.type}`);
-                return false;
-        }
+    checkCondition(condition: Condition): boolean {
+        return ConditionEvaluator.instance.evaluate(condition);
     }
 
     /**
      * 检查多个条件（与运算）
      */
-    checkConditions(conditions: { type: string; target: string; value: any }[]): boolean {
-        return conditions.every(c => this.checkCondition(c));
+    checkConditions(conditions: Condition[]): boolean {
+        return ConditionEvaluator.instance.evaluateAll(conditions);
     }
 
     // ==================== 查询功能 ====================
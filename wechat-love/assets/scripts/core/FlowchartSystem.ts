@@ -0,0 +1,286 @@
+/**
+ * 流程图 - FlowchartSystem
+ * 提供章节流程图数据（区块的未读/已读/当前状态），并支持跳转到已到达过的区块
+ * 每个区块首次到达时记录状态快照（全局持久化），跳转时恢复该快照后从区块首节点播放
+ * 快照按章节分别存储，避免单个存储键超过微信的 1MB 上限
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { StoryNode } from './StoryTypes';
+import { StoryManager } from './StoryManager';
+import { DialogSystem } from './DialogSystem';
+import { GlobalProgressManager } from './GlobalProgressManager';
+import { I18nManager } from './I18nManager';
+import { GameSnapshot, captureSnapshot, restoreSnapshot } from './StateSnapshot';
+import {
+    FlowchartGraph, FlowchartBlock, FlowchartEdge, buildFlowchart, findBlock,
+} from '../tools/StoryFlowchart';
+
+// 区块状态
+export type FlowchartBlockState = 'unseen' | 'seen' | 'current';
+
+// 区块显示数据
+export interface FlowchartBlockView extends FlowchartBlock {
+    state: FlowchartBlockState;
+    summary: string;         // 代表文本（当前语言），未读区块为空
+    canJump: boolean;        // 是否记录了可跳转的快照
+}
+
+// 连线显示数据
+export interface FlowchartEdgeView extends FlowchartEdge {
+    label: string;           // 选项文本，未读区块的选项为空
+}
+
+// 章节流程图显示数据
+export interface FlowchartView {
+    chapterId: string;
+    title: string;
+    blocks: FlowchartBlockView[];
+    edges: FlowchartEdgeView[];
+}
+
+// 已记录快照的章节列表；各章节的快照存于 STORAGE_KEY_<章节ID>
+const STORAGE_KEY = 'flowchart_snapshots';
+
+export class FlowchartSystem extends EventEmitter {
+    private static _instance: FlowchartSystem;
+    public static get instance(): FlowchartSystem {
+        if (!FlowchartSystem._instance) {
+            FlowchartSystem._instance = new FlowchartSystem();
+        }
+        return FlowchartSystem._instance;
+    }
+
+    // 章节流程图缓存
+    private _graphs: Map<string, FlowchartGraph> = new Map();
+
+    // 区块首次到达时的快照（章节ID -> 区块ID -> 快照）
+    private _snapshots: Map<string, Map<string, GameSnapshot>> = new Map();
+
+    private constructor() {
+        super();
+    }
+
+    /**
+     * 初始化
+     */
+    init() {
+        this.load();
+
+        // 区块首节点生效前记录快照（回想等场景回放不记录）
+        StoryManager.instance.on('nodeEntering', (node: StoryNode) => this.record(node));
+
+        GlobalProgressManager.instance.on('cleared', () => this.clear());
+
+        const count = [...this._snapshots.values()].reduce((sum, blocks) => sum + blocks.size, 0);
+        console.log(`[FlowchartSystem] 初始化完成，已记录 ${count} 个区块`);
+    }
+
+    // ==================== 流程图 ====================
+
+    /**
+     * 章节流程图（结构），章节不存在时为空
+     */
+    getGraph(chapterId: string): FlowchartGraph | null {
+        let graph = this._graphs.get(chapterId);
+        if (!graph) {
+            const chapter = StoryManager.instance.getChapter(chapterId);
+            if (!chapter) return null;
+
+            graph = buildFlowchart(chapter);
+            this._graphs.set(chapterId, graph);
+        }
+        return graph;
+    }
+
+    /**
+     * 章节流程图显示数据
+     */
+    getView(chapterId: string): FlowchartView | null {
+        const chapter = StoryManager.instance.getChapter(chapterId);
+        const graph = this.getGraph(chapterId);
+        if (!chapter || !graph) return null;
+
+        const blocks = graph.blocks.map(block => {
+            const state = this.getBlockState(chapterId, block);
+            const summaryNode = block.summaryNode && chapter.nodes[block.summaryNode];
+            const summary = state !== 'unseen' && summaryNode
+                ? DialogSystem.instance.interpolate(
+                    I18nManager.instance.t(summaryNode.contentKey || '', undefined, summaryNode.content))
+                : '';
+
+            return { ...block, state, summary, canJump: this.canJump(chapterId, block.id) };
+        });
+
+        // 选项出口显示选项文本（选择点未读时隐藏）
+        const edges = graph.edges.map(edge => {
+            const from = blocks.find(b => b.id === edge.from)!;
+            const choice = edge.choiceId && from.state !== 'unseen'
+                ? chapter.nodes[from.nodes[from.nodes.length - 1]].choices?.find(c => c.id === edge.choiceId)
+                : undefined;
+            return { ...edge, label: choice ? DialogSystem.instance.getChoiceText(choice) : '' };
+        });
+
+        return {
+            chapterId,
+            title: I18nManager.instance.t(chapter.titleKey || '', undefined, chapter.title),
+            blocks,
+            edges,
+        };
+    }
+
+    /**
+     * 区块状态：包含当前节点为 current；本周目经过、任意周目读过或记录过快照为 seen
+     */
+    getBlockState(chapterId: string, block: FlowchartBlock): FlowchartBlockState {
+        const story = StoryManager.instance;
+        const progress = story.getProgress();
+        if (progress.chapter === chapterId && block.nodes.includes(progress.node)) {
+            return 'current';
+        }
+
+        const global = GlobalProgressManager.instance;
+        const seen = this.canJump(chapterId, block.id)
+            || (progress.chapter === chapterId && block.nodes.some(id => story.hasVisited(id)))
+            || block.nodes.some(id => global.isRead(chapterId, id));
+        return seen ? 'seen' : 'unseen';
+    }
+
+    /**
+     * 当前节点所在区块
+     */
+    getCurrentBlock(): FlowchartBlock | undefined {
+        const { chapter, node } = StoryManager.instance.getProgress();
+        const graph = chapter ? this.getGraph(chapter) : null;
+        return graph ? findBlock(graph, node) : undefined;
+    }
+
+    // ==================== 跳转 ====================
+
+    /**
+     * 是否可以跳转到区块
+     */
+    canJump(chapterId: string, blockId: string): boolean {
+        return !!this._snapshots.get(chapterId)?.has(blockId);
+    }
+
+    /**
+     * 跳转到区块：恢复首次到达时的状态，从区块首节点开始播放
+     */
+    async jumpTo(chapterId: string, blockId: string): Promise<boolean> {
+        const snapshot = this._snapshots.get(chapterId)?.get(blockId);
+        if (!snapshot || StoryManager.instance.isPlayingScene()) {
+            console.warn(`[FlowchartSystem] 无法跳转: ${chapterId}/${blockId}`);
+            return false;
+        }
+
+        restoreSnapshot(snapshot);
+        console.log(`[FlowchartSystem] 跳转到: ${chapterId}/${blockId}`);
+        this.emit('jumped', { chapterId, blockId });
+
+        return StoryManager.instance.jumpTo(chapterId, blockId);
+    }
+
+    // ==================== 记录 ====================
+
+    /**
+     * 到达区块首节点时记录快照（只记录第一次）
+     */
+    private record(node: StoryNode) {
+        const story = StoryManager.instance;
+        if (story.isPlayingScene()) return;
+
+        const chapterId = story.getProgress().chapter;
+        const graph = chapterId ? this.getGraph(chapterId) : null;
+        if (!graph || !graph.blocks.some(b => b.id === node.id)) return;
+
+        let blocks = this._snapshots.get(chapterId);
+        if (blocks?.has(node.id)) return;
+
+        if (!blocks) {
+            blocks = new Map();
+            this._snapshots.set(chapterId, blocks);
+        }
+        blocks.set(node.id, captureSnapshot());
+        this.save(chapterId);
+
+        this.emit('blockReached', { chapterId, blockId: node.id });
+    }
+
+    private chapterKey(chapterId: string): string {
+        return `${STORAGE_KEY}_${chapterId}`;
+    }
+
+    // ==================== 持久化 ====================
+
+    /**
+     * 加载
+     */
+    load() {
+        this._snapshots = new Map();
+
+        for (const chapterId of this.loadChapterList()) {
+            try {
+                // const data = wx.getStorageSync(this.chapterKey(chapterId));
+                const data = localStorage.getItem(this.chapterKey(chapterId));
+
+                if (data) {
+                    const saved: Record<string, GameSnapshot> = JSON.parse(data);
+                    this._snapshots.set(chapterId, new Map(Object.entries(saved)));
+                }
+            } catch (e) {
+                console.warn(`[FlowchartSystem] 加载流程图记录失败: ${chapterId}`);
+            }
+        }
+    }
+
+    /**
+     * 保存章节的快照（存储失败时发出 saveFailed，本次运行中仍可跳转）
+     */
+    save(chapterId: string): boolean {
+        try {
+            const data = Object.fromEntries(this._snapshots.get(chapterId) || []);
+            // wx.setStorageSync(this.chapterKey(chapterId), JSON.stringify(data));
+            localStorage.setItem(this.chapterKey(chapterId), JSON.stringify(data));
+
+            // wx.setStorageSync(STORAGE_KEY, JSON.stringify([...this._snapshots.keys()]));
+            localStorage.setItem(STORAGE_KEY, JSON.stringify([...this._snapshots.keys()]));
+            return true;
+        } catch (error) {
+            console.error(`[FlowchartSystem] 保存流程图记录失败: ${chapterId}`, error);
+            this.emit('saveFailed', { chapterId, error });
+            return false;
+        }
+    }
+
+    /**
+     * 已记录快照的章节列表
+     */
+    private loadChapterList(): string[] {
+        try {
+            // const data = wx.getStorageSync(STORAGE_KEY);
+            const data = localStorage.getItem(STORAGE_KEY);
+            const list = data ? JSON.parse(data) : [];
+            return Array.isArray(list) ? list : [];
+        } catch (e) {
+            console.warn('[FlowchartSystem] 加载流程图章节列表失败');
+            return [];
+        }
+    }
+
+    /**
+     * 清除记录（随全局进度一起清除）
+     */
+    clear() {
+        for (const chapterId of new Set([...this.loadChapterList(), ...this._snapshots.keys()])) {
+            // wx.removeStorageSync(this.chapterKey(chapterId));
+            localStorage.removeItem(this.chapterKey(chapterId));
+        }
+        this._snapshots.clear();
+        // wx.removeStorageSync(STORAGE_KEY);
+        localStorage.removeItem(STORAGE_KEY);
+        this.emit('cleared');
+    }
+}
+
+export const Flowchart = FlowchartSystem.instance;
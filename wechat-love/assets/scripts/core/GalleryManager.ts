@@ -0,0 +1,247 @@
+/**
+ * CG画廊 - GalleryManager
+ * 负责CG登记、解锁（剧情 unlock 效果触发，全局持久化）、收集进度统计与回想模式
+ *
+ * CG配置位于 resources/data/game-config/gallery.json
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { ResourceManager, ResourceType } from './ResourceManager';
+import { GlobalProgressManager } from './GlobalProgressManager';
+import { StoryManager } from './StoryManager';
+import { I18nManager } from './I18nManager';
+import { GameSnapshot, captureSnapshot, restoreSnapshot } from './StateSnapshot';
+
+// CG来源场景（回想时回放的范围）
+export interface CGScene {
+    chapter: string;
+    start: string;
+    end?: string;            // 缺省时回放到章节结束
+}
+
+// CG配置
+export interface CGData {
+    id: string;
+    characterId: string;
+    title: string;
+    thumbnail: string;
+    image: string;
+    variants: string[];      // 差分图
+    scene?: CGScene;
+}
+
+// 收集进度
+export interface GalleryCompletion {
+    unlocked: number;
+    total: number;
+    percent: number;         // 0-100
+}
+
+export class GalleryManager extends EventEmitter {
+    private static _instance: GalleryManager;
+    public static get instance(): GalleryManager {
+        if (!GalleryManager._instance) {
+            GalleryManager._instance = new GalleryManager();
+        }
+        return GalleryManager._instance;
+    }
+
+    // CG登记表（按配置顺序）
+    private _cgs: Map<string, CGData> = new Map();
+
+    // 回想中的CG，及回想前的状态
+    private _recallingId: string = '';
+    private _recallSnapshot: GameSnapshot | null = null;
+
+    private constructor() {
+        super();
+    }
+
+    /**
+     * 初始化
+     */
+    async init() {
+        const config = await ResourceManager.instance.load<any>('game-config/gallery', ResourceType.JSON);
+
+        for (const cg of config?.cgs || []) {
+            this.register(cg);
+        }
+
+        console.log(`[GalleryManager] 初始化完成，共 ${this._cgs.size} 张CG`);
+    }
+
+    /**
+     * 登记CG
+     */
+    register(cg: CGData) {
+        if (this._cgs.has(cg.id)) {
+            console.warn(`[GalleryManager] CG已存在: ${cg.id}`);
+            return;
+        }
+        this._cgs.set(cg.id, { ...cg, variants: cg.variants || [] });
+    }
+
+    // ==================== 解锁 ====================
+
+    /**
+     * 解锁CG
+     */
+    unlock(cgId: string): boolean {
+        const cg = this._cgs.get(cgId);
+        if (!cg) {
+            console.warn(`[GalleryManager] 未登记的CG: ${cgId}`);
+            return false;
+        }
+
+        if (!GlobalProgressManager.instance.unlockCG(cgId)) return false;
+
+        console.log(`[GalleryManager] 解锁CG: ${cgId}`);
+        this.emit('cgUnlocked', this.getCG(cgId));
+        return true;
+    }
+
+    /**
+     * 是否已登记
+     */
+    has(cgId: string): boolean {
+        return this._cgs.has(cgId);
+    }
+
+    /**
+     * 是否已解锁
+     */
+    isUnlocked(cgId: string): boolean {
+        return GlobalProgressManager.instance.isCGUnlocked(cgId);
+    }
+
+    // ==================== 查询 ====================
+
+    /**
+     * 获取CG（标题按当前语言，cg.<ID>.title）
+     */
+    getCG(cgId: string): CGData | undefined {
+        const cg = this._cgs.get(cgId);
+        return cg && {
+            ...cg,
+            title: I18nManager.instance.t(`cg.${cg.id}.title`, undefined, cg.title),
+        };
+    }
+
+    /**
+     * 获取CG列表（可按角色筛选），附带解锁状态
+     */
+    getCGList(characterId?: string): Array<CGData & { unlocked: boolean }> {
+        return Array.from(this._cgs.values())
+            .filter(cg => !characterId || cg.characterId === characterId)
+            .map(cg => ({ ...this.getCG(cg.id)!, unlocked: this.isUnlocked(cg.id) }));
+    }
+
+    /**
+     * 查看CG时依次显示的图片：原图与差分，未解锁时为空
+     */
+    getViewerImages(cgId: string): string[] {
+        const cg = this._cgs.get(cgId);
+        if (!cg || !this.isUnlocked(cgId)) return [];
+        return [cg.image, ...cg.variants];
+    }
+
+    /**
+     * 已解锁数量
+     */
+    getUnlockedCount(): number {
+        return Array.from(this._cgs.keys()).filter(id => this.isUnlocked(id)).length;
+    }
+
+    /**
+     * 收集进度（可按角色统计）
+     */
+    getCompletion(characterId?: string): GalleryCompletion {
+        const list = this.getCGList(characterId);
+        const unlocked = list.filter(cg => cg.unlocked).length;
+        const total = list.length;
+
+        return {
+            unlocked,
+            total,
+            percent: total > 0 ? Math.floor(unlocked / total * 100) : 0,
+        };
+    }
+
+    /**
+     * 各角色的收集进度
+     */
+    getCompletionByCharacter(): Record<string, GalleryCompletion> {
+        const result: Record<string, GalleryCompletion> = {};
+        for (const cg of this._cgs.values()) {
+            if (!result[cg.characterId]) {
+                result[cg.characterId] = this.getCompletion(cg.characterId);
+            }
+        }
+        return result;
+    }
+
+    // ==================== 回想 ====================
+
+    /**
+     * 回想：回放CG所在的场景，结束后恢复回想前的状态
+     */
+    async recall(cgId: string): Promise<boolean> {
+        const cg = this._cgs.get(cgId);
+        if (!cg || !cg.scene || !this.isUnlocked(cgId)) {
+            console.warn(`[GalleryManager] 无法回想: ${cgId}`);
+            return false;
+        }
+        if (this._recallingId) {
+            console.warn(`[GalleryManager] 正在回想: ${this._recallingId}`);
+            return false;
+        }
+
+        this._recallingId = cgId;
+        this._recallSnapshot = captureSnapshot();
+
+        const story = StoryManager.instance;
+        story.once('sceneEnded', () => this.finishRecall());
+
+        console.log(`[GalleryManager] 开始回想: ${cgId}`);
+        this.emit('recallStarted', this.getCG(cgId));
+
+        const started = await story.playScene(cg.scene.chapter, cg.scene.start, cg.scene.end);
+        if (!started) {
+            story.stopScene();
+        }
+        return started;
+    }
+
+    /**
+     * 中途退出回想
+     */
+    stopRecall() {
+        if (!this._recallingId) return;
+        StoryManager.instance.stopScene();
+    }
+
+    /**
+     * 是否在回想中
+     */
+    isRecalling(): boolean {
+        return !!this._recallingId;
+    }
+
+    /**
+     * 回想结束：恢复状态
+     */
+    private finishRecall() {
+        const cgId = this._recallingId;
+        if (this._recallSnapshot) {
+            restoreSnapshot(this._recallSnapshot);
+        }
+
+        this._recallingId = '';
+        this._recallSnapshot = null;
+
+        console.log(`[GalleryManager] 回想结束: ${cgId}`);
+        this.emit('recallEnded', cgId);
+    }
+}
+
+export const Gallery = GalleryManager.instance;
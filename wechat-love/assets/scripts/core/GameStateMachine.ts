@@ -92,17 +92,21 @@ const STATE_TRANSITIONS: Record<GameState, GameState[]> = {
         GameState.PAUSE,
         GameState.INVENTORY,
         GameState.CHARACTER,
+        GameState.ENDING,
     ],
     [GameState.DIALOG]: [
         GameState.CHOICE,
         GameState.EVENT,
         GameState.PLAYING,
         GameState.ENDING,
+        GameState.GALLERY,
     ],
     [GameState.CHOICE]: [
         GameState.DIALOG,
         GameState.EVENT,
         GameState.PLAYING,
+        GameState.ENDING,
+        GameState.GALLERY,
     ],
     [GameState.EVENT]: [
         GameState.DIALOG,
@@ -136,6 +140,7 @@ const STATE_TRANSITIONS: Record<GameState, GameState[]> = {
     [GameState.GALLERY]: [
         GameState.MAIN_MENU,
         GameState.PAUSE,
+        GameState.PLAYING,
     ],
     [GameState.ACHIEVEMENT]: [
         GameState.MAIN_MENU,
@@ -0,0 +1,231 @@
+/**
+ * 全局进度 - GlobalProgressManager
+ * 记录跨周目、与存档槽位无关的进度（如已读文本、选过的选项、达成过的结局、解锁的CG），单独持久化
+ */
+
+import { EventEmitter } from './EventEmitter';
+
+// 持久化数据
+interface GlobalProgressData {
+    readNodes: string[];     // 已读节点（章节ID/节点ID）
+    choices: string[];       // 选过的选项（章节ID/节点ID/选项ID）
+    endings: string[];       // 达成过的结局ID
+    cgs: string[];           // 解锁的CG ID
+}
+
+const STORAGE_KEY = 'global_progress';
+
+export class GlobalProgressManager extends EventEmitter {
+    private static _instance: GlobalProgressManager;
+    public static get instance(): GlobalProgressManager {
+        if (!GlobalProgressManager._instance) {
+            GlobalProgressManager._instance = new GlobalProgressManager();
+        }
+        return GlobalProgressManager._instance;
+    }
+
+    // 已读节点
+    private _readNodes: Set<string> = new Set();
+
+    // 选过的选项
+    private _choices: Set<string> = new Set();
+
+    // 达成过的结局
+    private _endings: Set<string> = new Set();
+
+    // 解锁的CG
+    private _cgs: Set<string> = new Set();
+
+    private constructor() {
+        super();
+    }
+
+    /**
+     * 初始化
+     */
+    init() {
+        this.load();
+        console.log(`[GlobalProgressManager] 初始化完成，已读 ${this._readNodes.size} 句，结局 ${this._endings.size} 个`);
+    }
+
+    // ==================== 已读记录 ====================
+
+    /**
+     * 节点是否已读
+     */
+    isRead(chapterId: string, nodeId: string): boolean {
+        return this._readNodes.has(`${chapterId}/${nodeId}`);
+    }
+
+    /**
+     * 标记节点已读
+     */
+    markRead(chapterId: string, nodeId: string) {
+        const key = `${chapterId}/${nodeId}`;
+        if (this._readNodes.has(key)) return;
+
+        this._readNodes.add(key);
+        this.save();
+    }
+
+    /**
+     * 已读节点数量
+     */
+    getReadCount(): number {
+        return this._readNodes.size;
+    }
+
+    // ==================== 选项记录 ====================
+
+    /**
+     * 记录选过的选项
+     */
+    recordChoice(chapterId: string, nodeId: string, choiceId: string) {
+        const key = `${chapterId}/${nodeId}/${choiceId}`;
+        if (this._choices.has(key)) return;
+
+        this._choices.add(key);
+        this.save();
+    }
+
+    /**
+     * 任意周目中是否选过该选项
+     */
+    hasChosen(chapterId: string, nodeId: string, choiceId: string): boolean {
+        return this._choices.has(`${chapterId}/${nodeId}/${choiceId}`);
+    }
+
+    // ==================== 结局记录 ====================
+
+    /**
+     * 记录达成的结局
+     */
+    recordEnding(endingId: string): boolean {
+        if (this._endings.has(endingId)) return false;
+
+        this._endings.add(endingId);
+        this.save();
+
+        this.emit('endingRecorded', endingId);
+        if (this._endings.size === 1) {
+            this.emit('choiceHintsUnlocked');
+        }
+        return true;
+    }
+
+    /**
+     * 是否达成过某结局
+     */
+    hasSeenEnding(endingId: string): boolean {
+        return this._endings.has(endingId);
+    }
+
+    /**
+     * 达成过的结局
+     */
+    getSeenEndings(): string[] {
+        return Array.from(this._endings);
+    }
+
+    /**
+     * 达成过的结局数量
+     */
+    getEndingCount(): number {
+        return this._endings.size;
+    }
+
+    /**
+     * 选项提示是否已解锁（达成第一个结局后）
+     */
+    isChoiceHintsUnlocked(): boolean {
+        return this._endings.size > 0;
+    }
+
+    // ==================== CG解锁 ====================
+
+    /**
+     * 记录解锁的CG
+     */
+    unlockCG(cgId: string): boolean {
+        if (this._cgs.has(cgId)) return false;
+
+        this._cgs.add(cgId);
+        this.save();
+
+        this.emit('cgUnlocked', cgId);
+        return true;
+    }
+
+    /**
+     * CG是否已解锁
+     */
+    isCGUnlocked(cgId: string): boolean {
+        return this._cgs.has(cgId);
+    }
+
+    /**
+     * 已解锁的CG
+     */
+    getUnlockedCGs(): string[] {
+        return Array.from(this._cgs);
+    }
+
+    // ==================== 持久化 ====================
+
+    /**
+     * 加载
+     */
+    load() {
+        try {
+            // const data = wx.getStorageSync(STORAGE_KEY);
+            const data = localStorage.getItem(STORAGE_KEY);
+
+            if (data) {
+                const saved: Partial<GlobalProgressData> = JSON.parse(data);
+                this._readNodes = new Set(saved.readNodes || []);
+                this._choices = new Set(saved.choices || []);
+                this._endings = new Set(saved.endings || []);
+                this._cgs = new Set(saved.cgs || []);
+            }
+        } catch (e) {
+            console.warn('[GlobalProgressManager] 加载全局进度失败');
+            this._readNodes = new Set();
+            this._choices = new Set();
+            this._endings = new Set();
+            this._cgs = new Set();
+        }
+    }
+
+    /**
+     * 保存
+     */
+    save() {
+        try {
+            const data: GlobalProgressData = {
+                readNodes: Array.from(this._readNodes),
+                choices: Array.from(this._choices),
+                endings: Array.from(this._endings),
+                cgs: Array.from(this._cgs),
+            };
+            // wx.setStorageSync(STORAGE_KEY, JSON.stringify(data));
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+        } catch (e) {
+            console.error('[GlobalProgressManager] 保存全局进度失败', e);
+        }
+    }
+
+    /**
+     * 清除全局进度（仅用于调试/清除数据）
+     */
+    clear() {
+        this._readNodes.clear();
+        this._choices.clear();
+        this._endings.clear();
+        this._cgs.clear();
+        // wx.removeStorageSync(STORAGE_KEY);
+        localStorage.removeItem(STORAGE_KEY);
+        this.emit('cleared');
+    }
+}
+
+export const GlobalProgress = GlobalProgressManager.instance;
@@ -0,0 +1,172 @@
+/**
+ * 多语言 - I18nManager
+ * 负责字符串表的加载、按键取文本、回退语言以及格式化/复数辅助
+ *
+ * 字符串表位于 resources/data/i18n/<语言>.json，为 键 -> 文本 的扁平映射
+ * 复数文本写成对象：{ "one": "...", "other": "..." }
+ * 占位符写成 {name}，由 t() 的 params 填充
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { ResourceManager, ResourceType } from './ResourceManager';
+
+export type Locale = 'zh_CN' | 'en_US';
+
+// 复数形式
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+// 字符串表
+export type StringTable = Record<string, string | PluralForms>;
+
+export const SUPPORTED_LOCALES: Locale[] = ['zh_CN', 'en_US'];
+
+// 回退语言：剧情与配置的原文语言
+export const FALLBACK_LOCALE: Locale = 'zh_CN';
+
+export class I18nManager extends EventEmitter {
+    private static _instance: I18nManager;
+    public static get instance(): I18nManager {
+        if (!I18nManager._instance) {
+            I18nManager._instance = new I18nManager();
+        }
+        return I18nManager._instance;
+    }
+
+    // 当前语言
+    private _locale: Locale = FALLBACK_LOCALE;
+
+    // 已加载的字符串表
+    private _tables: Map<Locale, StringTable> = new Map();
+
+    private constructor() {
+        super();
+    }
+
+    /**
+     * 初始化
+     */
+    async init(locale: Locale = FALLBACK_LOCALE) {
+        await this.loadTable(FALLBACK_LOCALE);
+        await this.setLanguage(locale);
+        console.log(`[I18nManager] 初始化完成: ${this._locale}`);
+    }
+
+    /**
+     * 加载字符串表（加载失败时使用空表）
+     */
+    private async loadTable(locale: Locale): Promise<StringTable> {
+        const cached = this._tables.get(locale);
+        if (cached) return cached;
+
+        let table: StringTable = {};
+        try {
+            table = await ResourceManager.instance.load<StringTable>(`i18n/${locale}`, ResourceType.JSON) || {};
+        } catch (e) {
+            console.warn(`[I18nManager] 加载字符串表失败: ${locale}`);
+        }
+
+        this._tables.set(locale, table);
+        return table;
+    }
+
+    // ==================== 语言 ====================
+
+    /**
+     * 切换语言
+     */
+    async setLanguage(locale: Locale): Promise<boolean> {
+        if (!SUPPORTED_LOCALES.includes(locale)) {
+            console.warn(`[I18nManager] 不支持的语言: ${locale}`);
+            return false;
+        }
+
+        await this.loadTable(locale);
+        if (locale === this._locale) return true;
+
+        const oldLocale = this._locale;
+        this._locale = locale;
+
+        console.log(`[I18nManager] 语言: ${oldLocale} -> ${locale}`);
+        this.emit('languageChanged', { oldLocale, newLocale: locale });
+        return true;
+    }
+
+    /**
+     * 获取当前语言
+     */
+    getLanguage(): Locale {
+        return this._locale;
+    }
+
+    // ==================== 取文本 ====================
+
+    /**
+     * 按键取文本：当前语言 -> 回退语言 -> fallback -> 键名
+     * fallback 为剧情/配置中的原文，提供时代替回退语言的字符串表（表可能落后于原文）
+     */
+    t(key: string, params?: Record<string, string | number>, fallback?: string): string {
+        const entry = this.lookup(key, fallback === undefined);
+        const text = typeof entry === 'string' ? entry : entry?.other;
+        return format(text ?? fallback ?? key, params);
+    }
+
+    /**
+     * 按数量取复数文本，{count} 自动填充
+     */
+    plural(key: string, count: number, params?: Record<string, string | number>, fallback?: string): string {
+        const entry = this.lookup(key, fallback === undefined);
+        const allParams = { count: this.formatNumber(count), ...params };
+
+        if (entry === undefined || typeof entry === 'string') {
+            return format(entry ?? fallback ?? key, allParams);
+        }
+
+        const rule = new Intl.PluralRules(this.toBCP47(this._locale)).select(count);
+        return format(entry[rule] ?? entry.other, allParams);
+    }
+
+    /**
+     * 是否存在某个键（含回退语言）
+     */
+    has(key: string): boolean {
+        return this.lookup(key) !== undefined;
+    }
+
+    /**
+     * 数字格式化（千分位等）
+     */
+    formatNumber(value: number): string {
+        return new Intl.NumberFormat(this.toBCP47(this._locale)).format(value);
+    }
+
+    /**
+     * 查找文本，空字符串视为未翻译
+     * @param useFallbackTable 是否查回退语言的字符串表，调用方提供原文时不查
+     */
+    private lookup(key: string, useFallbackTable: boolean = true): string | PluralForms | undefined {
+        for (const locale of [this._locale, FALLBACK_LOCALE]) {
+            if (!useFallbackTable && locale === FALLBACK_LOCALE) continue;
+            const value = this._tables.get(locale)?.[key];
+            if (value !== undefined && value !== '') {
+                return value;
+            }
+        }
+        return undefined;
+    }
+
+    private toBCP47(locale: Locale): string {
+        return locale.replace('_', '-');
+    }
+}
+
+/**
+ * 填充占位符 {name}，未提供的占位符保持原样
+ */
+export function format(template: string, params?: Record<string, string | number>): string {
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name) =>
+        params[name] !== undefined ? String(params[name]) : match
+    );
+}
+
+export const I18n = I18nManager.instance;
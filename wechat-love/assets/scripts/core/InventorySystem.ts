@@ -4,6 +4,8 @@
  */
 
 import { EventEmitter } from './EventEmitter';
+import { I18nManager } from './I18nManager';
+import { Random, RandomStream } from './RandomService';
 
 // 物品类型
 export enum ItemType {
@@ -242,7 +244,7 @@ export class InventorySystem extends EventEmitter {
         const baseFavor = config.rarity ? config.rarity * 5 : 5;
         
         // 随机浮动
-        const random = Math.random() * 0.4 - 0.2; // -20% ~ +20%
+        const random = Random.range(RandomStream.GIFT, -0.2, 0.2); // -20% ~ +20%
         
         return Math.floor(baseFavor * (1 + random));
     }
@@ -269,7 +271,20 @@ export class InventorySystem extends EventEmitter {
      * 获取物品配置
      */
     getItemConfig(itemId: string): ItemData | undefined {
-        return ITEM_CONFIG[itemId];
+        const config = ITEM_CONFIG[itemId];
+        return config && this.localize(config);
+    }
+
+    /**
+     * 按当前语言替换名称与描述（item.<ID>.name / item.<ID>.description）
+     */
+    private localize(config: ItemData): ItemData {
+        const i18n = I18nManager.instance;
+        return {
+            ...config,
+            name: i18n.t(`item.${config.id}.name`, undefined, config.name),
+            description: i18n.t(`item.${config.id}.description`, undefined, config.description),
+        };
     }
 
     /**
@@ -288,7 +303,7 @@ export class InventorySystem extends EventEmitter {
         for (const item of this._items.values()) {
             const config = ITEM_CONFIG[item.id];
             if (config) {
-                list.push({ ...item, config });
+                list.push({ ...item, config: this.localize(config) });
             }
         }
         
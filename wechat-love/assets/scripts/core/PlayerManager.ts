@@ -0,0 +1,267 @@
+/**
+ * 玩家数据 - PlayerManager
+ * 负责主角姓名、属性等玩家数据的管理
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { WechatAdapter } from './WechatAdapter';
+
+// 属性定义
+export interface AttributeDefinition {
+    key: string;
+    name: string;
+    min: number;
+    max: number;
+    defaultValue: number;
+}
+
+// 姓名校验结果
+export interface NameValidationResult {
+    valid: boolean;
+    error?: string;
+}
+
+// 默认主角姓名（与characters.json中protagonist.defaultName保持一致）
+const DEFAULT_SURNAME = '李';
+const DEFAULT_GIVEN_NAME = '明';
+
+// 姓名规则
+const SURNAME_MAX_LENGTH = 4;
+const GIVEN_NAME_MAX_LENGTH = 6;
+const NAME_CHAR_PATTERN = /^[\u4e00-\u9fa5A-Za-z·]+$/;
+
+// 屏蔽词（正式环境还需调用微信内容安全接口）
+const BANNED_NAME_WORDS = ['系统', '管理员', '官方', '客服', 'GM', 'admin', '林雨晴', '苏小晚', '沈墨寒'];
+
+// 主角属性（与numbers.json中gameBalance.attributes保持一致）
+const ATTRIBUTE_DEFINITIONS: AttributeDefinition[] = [
+    { key: 'charm', name: '魅力', min: 0, max: 100, defaultValue: 50 },
+    { key: 'intellect', name: '智慧', min: 0, max: 100, defaultValue: 50 },
+    { key: 'luck', name: '运气', min: 0, max: 100, defaultValue: 50 },
+    { key: 'athletics', name: '体能', min: 0, max: 100, defaultValue: 50 },
+];
+
+export class PlayerManager extends EventEmitter {
+    private static _instance: PlayerManager;
+    public static get instance(): PlayerManager {
+        if (!PlayerManager._instance) {
+            PlayerManager._instance = new PlayerManager();
+        }
+        return PlayerManager._instance;
+    }
+
+    // 主角姓名
+    private _surname: string = DEFAULT_SURNAME;
+    private _givenName: string = DEFAULT_GIVEN_NAME;
+
+    // 属性值
+    private _attributes: Map<string, number> = new Map();
+
+    // 定义缓存
+    private _definitions: Map<string, AttributeDefinition> = new Map();
+
+    private constructor() {
+        super();
+
+        for (const def of ATTRIBUTE_DEFINITIONS) {
+            this._definitions.set(def.key, def);
+            this._attributes.set(def.key, def.defaultValue);
+        }
+    }
+
+    /**
+     * 初始化
+     */
+    init() {
+        console.log('[PlayerManager] 初始化完成');
+    }
+
+    // ==================== 姓名 ====================
+
+    /**
+     * 获取主角全名
+     */
+    getName(): string {
+        return `${this._surname}${this._givenName}`;
+    }
+
+    /**
+     * 获取姓
+     */
+    getSurname(): string {
+        return this._surname;
+    }
+
+    /**
+     * 获取名
+     */
+    getGivenName(): string {
+        return this._givenName;
+    }
+
+    /**
+     * 校验姓名
+     */
+    validateName(surname: string, givenName: string): NameValidationResult {
+        surname = surname.trim();
+        givenName = givenName.trim();
+
+        if (!surname || !givenName) {
+            return { valid: false, error: '请输入姓和名' };
+        }
+        if (Array.from(surname).length > SURNAME_MAX_LENGTH) {
+            return { valid: false, error: `姓最多${SURNAME_MAX_LENGTH}个字` };
+        }
+        if (Array.from(givenName).length > GIVEN_NAME_MAX_LENGTH) {
+            return { valid: false, error: `名最多${GIVEN_NAME_MAX_LENGTH}个字` };
+        }
+        if (!NAME_CHAR_PATTERN.test(surname) || !NAME_CHAR_PATTERN.test(givenName)) {
+            return { valid: false, error: '姓名只能包含中文或英文字母' };
+        }
+
+        const fullName = `${surname}${givenName}`.toLowerCase();
+        if (BANNED_NAME_WORDS.some(word => fullName.includes(word.toLowerCase()))) {
+            return { valid: false, error: '姓名包含不允许使用的词语' };
+        }
+
+        return { valid: true };
+    }
+
+    /**
+     * 设置主角姓名（校验通过才会生效）
+     */
+    setName(surname: string, givenName: string): NameValidationResult {
+        const result = this.validateName(surname, givenName);
+        if (!result.valid) {
+            console.warn(`[PlayerManager] 姓名不合法: ${surname}${givenName} (${result.error})`);
+            return result;
+        }
+
+        const oldName = this.getName();
+        this._surname = surname.trim();
+        this._givenName = givenName.trim();
+
+        console.log(`[PlayerManager] 姓名: ${oldName} -> ${this.getName()}`);
+        this.emit('nameChanged', { oldName, newName: this.getName() });
+        return result;
+    }
+
+    /**
+     * 从微信昵称生成姓名建议（仅供输入框预填，需玩家确认）
+     */
+    async suggestNameFromWechat(): Promise<{ surname: string; givenName: string } | null> {
+        const profile = await WechatAdapter.instance.getUserProfile();
+        if (!profile?.nickName) return null;
+
+        // 去掉表情、符号等不支持的字符
+        const chars = Array.from(profile.nickName).filter(c => NAME_CHAR_PATTERN.test(c));
+        if (chars.length === 0) return null;
+
+        // 中文昵称：首字为姓，其余为名；其他昵称整体作为名
+        if (/^[\u4e00-\u9fa5]+$/.test(chars.join('')) && chars.length >= 2) {
+            return {
+                surname: chars[0],
+                givenName: chars.slice(1, 1 + GIVEN_NAME_MAX_LENGTH).join(''),
+            };
+        }
+
+        return { surname: '', givenName: chars.slice(0, GIVEN_NAME_MAX_LENGTH).join('') };
+    }
+
+    // ==================== 属性 ====================
+
+    /**
+     * 获取属性值
+     */
+    getAttribute(key: string): number {
+        return this._attributes.get(key) ?? 0;
+    }
+
+    /**
+     * 修改属性值（限制在定义范围内）
+     */
+    changeAttribute(key: string, delta: number): number {
+        const def = this._definitions.get(key);
+        if (!def) {
+            console.warn(`[PlayerManager] 未知属性: ${key}`);
+            return 0;
+        }
+
+        const oldValue = this.getAttribute(key);
+        const newValue = Math.max(def.min, Math.min(def.max, oldValue + delta));
+        const actualChange = newValue - oldValue;
+
+        if (actualChange !== 0) {
+            this._attributes.set(key, newValue);
+            console.log(`[PlayerManager] ${def.name}: ${oldValue} -> ${newValue}`);
+            this.emit('attributeChanged', { key, oldValue, newValue });
+        }
+
+        return actualChange;
+    }
+
+    /**
+     * 获取所有属性
+     */
+    getAllAttributes(): Record<string, number> {
+        return Object.fromEntries(this._attributes);
+    }
+
+    /**
+     * 获取属性定义
+     */
+    getAttributeDefinition(key: string): AttributeDefinition | undefined {
+        return this._definitions.get(key);
+    }
+
+    // ==================== 存档相关 ====================
+
+    /**
+     * 导出数据
+     */
+    exportData(): { name: string; surname: string; givenName: string; attributes: Record<string, number> } {
+        return {
+            name: this.getName(),
+            surname: this._surname,
+            givenName: this._givenName,
+            attributes: this.getAllAttributes(),
+        };
+    }
+
+    /**
+     * 导入数据
+     */
+    importData(data: { name?: string; surname?: string; givenName?: string; attributes?: Record<string, number> }): void {
+        this.reset();
+
+        if (data.surname && data.givenName) {
+            this._surname = data.surname;
+            this._givenName = data.givenName;
+        } else if (data.name) {
+            // 旧存档只有全名：首字为姓
+            const chars = Array.from(data.name);
+            this._surname = chars[0];
+            this._givenName = chars.slice(1).join('');
+        }
+
+        for (const [key, value] of Object.entries(data.attributes || {})) {
+            if (this._definitions.has(key)) {
+                this._attributes.set(key, value);
+            }
+        }
+    }
+
+    /**
+     * 重置
+     */
+    reset(): void {
+        this._surname = DEFAULT_SURNAME;
+        this._givenName = DEFAULT_GIVEN_NAME;
+        for (const [key, def] of this._definitions) {
+            this._attributes.set(key, def.defaultValue);
+        }
+        console.log('[PlayerManager] 已重置');
+    }
+}
+
+export const Player = PlayerManager.instance;
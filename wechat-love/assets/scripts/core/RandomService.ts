@@ -0,0 +1,174 @@
+/**
+ * 随机数服务 - RandomService
+ * 按用途分为独立的随机数流（送礼、聊天、事件），每个流由主种子派生，互不影响
+ * 各流的状态随存档保存，读档后得到相同的结果（无法通过反复读档刷出更好的结果）
+ * 设置中填写 debugSeed 时，新游戏使用固定种子，便于复现问题
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { SettingsManager } from './SettingsManager';
+
+// 随机数流
+export enum RandomStream {
+    GIFT = 'gift',      // 送礼好感度浮动
+    CHAT = 'chat',      // 聊天回复
+    EVENTS = 'events',  // 随机事件
+}
+
+// 随机数状态（存档/快照使用）
+export interface RandomState {
+    seed: number;
+    streams: Record<string, number>;  // 已使用过的流的当前状态
+}
+
+export class RandomService extends EventEmitter {
+    private static _instance: RandomService;
+    public static get instance(): RandomService {
+        if (!RandomService._instance) {
+            RandomService._instance = new RandomService();
+        }
+        return RandomService._instance;
+    }
+
+    // 主种子
+    private _seed: number = 0;
+
+    // 各流的当前状态，首次使用时由主种子派生
+    private _streams: Map<string, number> = new Map();
+
+    private constructor() {
+        super();
+        this._seed = generateSeed();
+    }
+
+    /**
+     * 初始化
+     */
+    init() {
+        this.reset();
+        console.log('[RandomService] 初始化完成');
+    }
+
+    // ==================== 取随机数 ====================
+
+    /**
+     * 下一个随机数（0-1）
+     */
+    next(stream: RandomStream): number {
+        const state = this._streams.has(stream) ? this._streams.get(stream)! : deriveState(this._seed, stream);
+        const [value, nextState] = mulberry32(state);
+        this._streams.set(stream, nextState);
+        return value;
+    }
+
+    /**
+     * 范围内的随机数 [min, max)
+     */
+    range(stream: RandomStream, min: number, max: number): number {
+        return min + this.next(stream) * (max - min);
+    }
+
+    /**
+     * 范围内的随机整数 [min, max]
+     */
+    int(stream: RandomStream, min: number, max: number): number {
+        return min + Math.floor(this.next(stream) * (max - min + 1));
+    }
+
+    /**
+     * 随机选取一项，列表为空时返回 undefined
+     */
+    pick<T>(stream: RandomStream, items: T[]): T | undefined {
+        if (items.length === 0) return undefined;
+        return items[Math.floor(this.next(stream) * items.length)];
+    }
+
+    // ==================== 种子 ====================
+
+    /**
+     * 获取主种子
+     */
+    getSeed(): number {
+        return this._seed;
+    }
+
+    /**
+     * 设置主种子，所有流从头开始
+     */
+    setSeed(seed: number) {
+        this._seed = seed >>> 0;
+        this._streams.clear();
+
+        console.log(`[RandomService] 种子: ${this._seed}`);
+        this.emit('seedChanged', this._seed);
+    }
+
+    // ==================== 存档相关 ====================
+
+    /**
+     * 导出随机数状态
+     */
+    exportData(): RandomState {
+        return {
+            seed: this._seed,
+            streams: Object.fromEntries(this._streams),
+        };
+    }
+
+    /**
+     * 导入随机数状态（旧存档没有记录时重新生成种子）
+     */
+    importData(data: RandomState | undefined) {
+        if (!data) {
+            this.reset();
+            return;
+        }
+
+        this._seed = data.seed >>> 0;
+        this._streams = new Map(Object.entries(data.streams || {}).map(([stream, state]) => [stream, state >>> 0]));
+    }
+
+    /**
+     * 重置（新游戏），设置了调试种子时使用固定种子
+     * @param seed 指定种子，优先于调试种子
+     */
+    reset(seed?: number) {
+        const debugSeed = SettingsManager.instance.get('debugSeed');
+        this.setSeed(seed ?? debugSeed ?? generateSeed());
+    }
+}
+
+/**
+ * 可复现的随机数（mulberry32），相同种子得到相同序列
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        const [value, nextState] = mulberry32(state);
+        state = nextState;
+        return value;
+    };
+}
+
+function mulberry32(state: number): [number, number] {
+    const nextState = (state + 0x6d2b79f5) >>> 0;
+    let t = nextState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return [((t ^ (t >>> 14)) >>> 0) / 4294967296, nextState];
+}
+
+// 流的初始状态：主种子与流名称的哈希（FNV-1a）混合
+function deriveState(seed: number, stream: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < stream.length; i++) {
+        hash = Math.imul(hash ^ stream.charCodeAt(i), 0x01000193);
+    }
+    return (seed ^ hash) >>> 0;
+}
+
+function generateSeed(): number {
+    return (Date.now() ^ Math.floor(Math.random() * 0x100000000)) >>> 0;
+}
+
+export const Random = RandomService.instance;
@@ -3,6 +3,7 @@
  * 负责游戏资源的加载、缓存与管理
  */
 
+import { resources, Asset, JsonAsset } from 'cc';
 import { EventEmitter } from './EventEmitter';
 
 export enum ResourceType {
@@ -46,11 +47,13 @@ export class ResourceManager extends EventEmitter {
         [ResourceType.AUDIO]: 'resources/audio/',
         [ResourceType.SPRITE_FRAME]: 'resources/characters/',
         [ResourceType.PREFAB]: 'prefabs/',
-        [ResourceType.JSON]: 'resources/data/',
+        [ResourceType.JSON]: 'data/',
         [ResourceType.TEXT]: 'resources/text/',
     };
 
-    private constructor() {}
+    private constructor() {
+        super();
+    }
 
     /**
      * 初始化
@@ -123,9 +126,10 @@ export class ResourceManager extends EventEmitter {
         
         // 根据类型使用不同的加载方式
         switch (type) {
-            case ResourceType.JSON:
-                // return await Resources.load(url, JSON) as T;
-                return {} as T;
+            case ResourceType.JSON: {
+                const asset = await this.loadAsset(url, JsonAsset);
+                return asset.json as T;
+            }
             
             case ResourceType.IMAGE:
                 // return await Resources.load(url, Texture2D) as T;
@@ -148,6 +152,15 @@ export class ResourceManager extends EventEmitter {
         }
     }
 
+    /**
+     * 从 resources 目录加载引擎资源
+     */
+    private loadAsset<T extends Asset>(url: string, assetType: new () => T): Promise<T> {
+        return new Promise((resolve, reject) => {
+            resources.load(url, assetType, (err, asset) => err ? reject(err) : resolve(asset));
+        });
+    }
+
     /**
      * 批量加载
      */
@@ -0,0 +1,127 @@
+/**
+ * 回退系统 - RollbackSystem
+ * 在每次推进剧情（下一句/选择选项）前保存状态快照，支持回退若干步
+ * 快照只保存在内存中，不写入存档
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { StoryManager } from './StoryManager';
+import { BacklogSystem } from './BacklogSystem';
+import { GameSnapshot, captureSnapshot, restoreSnapshot } from './StateSnapshot';
+
+// 回退点
+interface RollbackPoint {
+    chapterId: string;
+    nodeId: string;          // 推进前显示的节点，回退后重新显示
+    backlogMark: number;     // 当时对话记录的位置，回退时丢弃之后的记录
+    snapshot: GameSnapshot;
+}
+
+// 默认回退深度
+const DEFAULT_MAX_DEPTH = 50;
+
+export class RollbackSystem extends EventEmitter {
+    private static _instance: RollbackSystem;
+    public static get instance(): RollbackSystem {
+        if (!RollbackSystem._instance) {
+            RollbackSystem._instance = new RollbackSystem();
+        }
+        return RollbackSystem._instance;
+    }
+
+    // 回退栈（栈顶为最近一次）
+    private _stack: RollbackPoint[] = [];
+
+    // 最大深度
+    private _maxDepth: number = DEFAULT_MAX_DEPTH;
+
+    private constructor() {
+        super();
+    }
+
+    /**
+     * 初始化
+     */
+    init() {
+        StoryManager.instance.on('beforeAdvance', (data: { chapterId: string; nodeId: string }) => {
+            this.push(data.chapterId, data.nodeId);
+        });
+
+        console.log('[RollbackSystem] 初始化完成');
+    }
+
+    /**
+     * 保存回退点
+     */
+    private push(chapterId: string, nodeId: string) {
+        if (!chapterId || !nodeId || this._maxDepth <= 0) return;
+
+        this._stack.push({ chapterId, nodeId, backlogMark: BacklogSystem.instance.getMark(), snapshot: captureSnapshot() });
+        if (this._stack.length > this._maxDepth) {
+            this._stack.splice(0, this._stack.length - this._maxDepth);
+        }
+    }
+
+    /**
+     * 回退若干步：恢复快照并重新显示当时的节点
+     */
+    rollback(steps: number = 1): boolean {
+        if (!this.canRollback(steps)) {
+            console.warn(`[RollbackSystem] 无法回退 ${steps} 步，当前可回退 ${this._stack.length} 步`);
+            return false;
+        }
+
+        const point = this._stack[this._stack.length - steps];
+        this._stack.length -= steps;
+
+        restoreSnapshot(point.snapshot);
+
+        // 先丢弃回退掉的对话记录，再重新显示节点
+        BacklogSystem.instance.trimTo(point.backlogMark, point.chapterId, point.nodeId);
+        console.log(`[RollbackSystem] 回退 ${steps} 步: ${point.chapterId}/${point.nodeId}`);
+        this.emit('rolledBack', { steps, chapterId: point.chapterId, nodeId: point.nodeId });
+
+        StoryManager.instance.replayNode(point.nodeId);
+        return true;
+    }
+
+    /**
+     * 是否可以回退
+     */
+    canRollback(steps: number = 1): boolean {
+        return steps > 0 && steps <= this._stack.length;
+    }
+
+    /**
+     * 当前可回退步数
+     */
+    getDepth(): number {
+        return this._stack.length;
+    }
+
+    /**
+     * 设置最大回退深度（0为关闭回退）
+     */
+    setMaxDepth(depth: number) {
+        this._maxDepth = Math.max(0, Math.floor(depth));
+        if (this._stack.length > this._maxDepth) {
+            this._stack.splice(0, this._stack.length - this._maxDepth);
+        }
+    }
+
+    /**
+     * 获取最大回退深度
+     */
+    getMaxDepth(): number {
+        return this._maxDepth;
+    }
+
+    /**
+     * 清空回退记录
+     */
+    reset(): void {
+        this._stack = [];
+    }
+}
+
+export const Rollback = RollbackSystem.instance;
@@ -6,6 +6,16 @@
 import { _decorator, Component, Node } from 'cc';
 import { EventEmitter } from './EventEmitter';
 import { CharacterSystem } from './CharacterSystem';
+import { PlayerManager } from './PlayerManager';
+import { FlagManager } from './FlagManager';
+import { InventorySystem } from './InventorySystem';
+import { AchievementSystem, AchievementState } from './AchievementSystem';
+import { VariableStore, VariableValue } from './VariableStore';
+import { SceneEffects, SceneState } from './SceneEffects';
+import { AudioManager, AudioState } from './AudioManager';
+import { StoryManager, CallFrame } from './StoryManager';
+import { StageManager, StageState } from './StageManager';
+import { RandomService, RandomState } from './RandomService';
 import { GameStateMachine, GameState } from './GameStateMachine';
 
 const { ccclass, property } = _decorator;
@@ -21,6 +31,12 @@ export interface SaveData {
     chapter: string;
     node: string;
 
+    // 公共节点调用栈（调用中存档时）
+    callStack?: CallFrame[];
+
+    // 剧情进度（已访问节点、已通关章节、历史选择、剧情内标志位）
+    story?: any;
+
     // 角色状态
     characters: Record<string, {
         favor: number;
@@ -32,11 +48,34 @@ export interface SaveData {
     // 标志位
     flags: Record<string, boolean>;
 
+    // 剧情变量
+    variables?: Record<string, VariableValue>;
+
+    // 背包（道具与金币）
+    inventory?: any;
+
+    // 成就进度
+    achievements?: AchievementState[];
+
+    // 场景状态（背景、叠加层）
+    scene?: SceneState;
+
+    // 正在播放的BGM与环境音
+    audio?: AudioState;
+
+    // 登场角色
+    stage?: StageState;
+
+    // 随机数状态（读档后结果相同）
+    random?: RandomState;
+
     // 玩家数据
     player: {
         playTime: number;
         choices: string[];
         name?: string;
+        surname?: string;
+        givenName?: string;
         attributes?: Record<string, number>;
     };
 
@@ -219,6 +258,12 @@ export class SaveLoadSystem extends EventEmitter {
             return false;
         }
 
+        // 画廊回想在当前游戏状态上回放场景，此时存档会覆盖真实进度
+        if (StoryManager.instance.isPlayingScene()) {
+            console.log('[SaveLoadSystem] 回想中，跳过自动存档');
+            return false;
+        }
+
         // 检查时间间隔
         const now = Date.now();
         if (now - this._lastAutoSaveTime < this._autoSaveInterval) {
@@ -258,24 +303,44 @@ export class SaveLoadSystem extends EventEmitter {
             // 进度数据
             chapter: extraData?.chapter || stateMachine.currentState as any,
             node: extraData?.node || this._autoSaveNode,
+            callStack: StoryManager.instance.getCallStack(),
+            story: StoryManager.instance.exportData(),
 
             // 角色数据
             characters: characterSystem.exportData(),
 
             // 标志位
-            flags: this.collectFlags(),
+            flags: FlagManager.instance.exportData(),
+
+            // 剧情变量
+            variables: VariableStore.instance.exportData(),
+
+            // 背包
+            inventory: InventorySystem.instance.exportData(),
+
+            // 成就
+            achievements: AchievementSystem.instance.exportData(),
+
+            // 场景状态
+            scene: SceneEffects.instance.exportData(),
+
+            // 音频状态
+            audio: AudioManager.instance.exportData(),
+
+            // 登场角色
+            stage: StageManager.instance.exportData(),
+
+            // 随机数状态
+            random: RandomService.instance.exportData(),
 
             // 玩家数据
             player: {
                 playTime: (extraData?.player?.playTime || 0) + this.calculatePlayTime(),
                 choices: extraData?.player?.choices || [],
-                name: extraData?.player?.name || '李明',
-                attributes: extraData?.player?.attributes || {
-                    charm: 50,
-                    intellect: 50,
-                    luck: 50,
-                    athletics: 50,
-                },
+                name: extraData?.player?.name || PlayerManager.instance.getName(),
+                surname: extraData?.player?.surname || PlayerManager.instance.getSurname(),
+                givenName: extraData?.player?.givenName || PlayerManager.instance.getGivenName(),
+                attributes: extraData?.player?.attributes || PlayerManager.instance.getAllAttributes(),
             },
 
             // 附加数据
@@ -283,14 +348,6 @@ export class SaveLoadSystem extends EventEmitter {
         };
     }
 
-    /**
-     * 收集当前标志位
-     */
-    private collectFlags(): Record<string, boolean> {
-        // TODO: 从FlagManager获取
-        return {};
-    }
-
     /**
      * 计算游玩时间
      */
@@ -530,11 +587,45 @@ export class SaveLoadSystem extends EventEmitter {
         }
 
         // 恢复标志位
-        // TODO: FlagManager.importData(data.flags);
+        FlagManager.instance.importData(data.flags || {});
+
+        // 恢复剧情变量
+        VariableStore.instance.importData(data.variables || {});
+
+        // 恢复背包
+        if (data.inventory) {
+            InventorySystem.instance.importData(data.inventory);
+        }
+
+        // 恢复成就
+        if (data.achievements) {
+            AchievementSystem.instance.importData(data.achievements);
+        }
+
+        // 恢复场景状态
+        SceneEffects.instance.importData(data.scene);
+
+        // 恢复BGM与环境音（旧存档没有记录时使用章节BGM）
+        AudioManager.instance.importData(data.audio || { bgm: StoryManager.instance.getChapter(data.chapter)?.bgm });
+
+        // 恢复登场角色
+        StageManager.instance.importData(data.stage);
+
+        // 恢复剧情进度（章节、已访问条件依赖、调用栈），继续游戏时从调用中的公共节点重新显示
+        if (data.story) {
+            StoryManager.instance.importData(data.story);
+        } else {
+            // 旧存档只记录了调用栈
+            StoryManager.instance.setCallStack(data.callStack);
+        }
+
+        // 恢复随机数状态
+        RandomService.instance.importData(data.random);
 
         // 恢复玩家数据
         if (data.player) {
             this._playStartTime = Date.now() - (data.player.playTime * 1000);
+            PlayerManager.instance.importData(data.player);
         }
 
         console.log(`[SaveLoadSystem] 应用存档数据: 章节 ${data.chapter}`);
@@ -0,0 +1,252 @@
+/**
+ * 场景效果 - SceneEffects
+ * 负责背景转场、屏幕震动、闪白、色调/天气叠加层
+ * 所有效果都有时长并返回Promise，剧情等待效果结束后再显示下一句
+ *
+ * 本模块只维护场景状态与计时，具体画面由监听事件的视图组件表现：
+ *   backgroundChanged / shake / flash / tintChanged / weatherChanged / sceneRestored
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { Effect, StoryNode, TransitionType } from './StoryTypes';
+import { SettingsManager } from './SettingsManager';
+import { DialogSystem } from './DialogSystem';
+
+export type WeatherType = 'none' | 'rain' | 'snow' | 'sakura';
+
+// 色调叠加
+export interface TintState {
+    color: string;
+    alpha: number;           // 0-1
+}
+
+// 场景状态（存档/快照使用）
+export interface SceneState {
+    background: string;
+    tint: TintState | null;
+    weather: WeatherType;
+}
+
+export const TRANSITION_TYPES: TransitionType[] = ['cut', 'crossfade', 'wipe', 'fade_black'];
+export const WEATHER_TYPES: WeatherType[] = ['none', 'rain', 'snow', 'sakura'];
+
+// 默认时长（毫秒）
+const DEFAULT_DURATIONS: Record<TransitionType | 'shake' | 'flash' | 'tint' | 'weather', number> = {
+    cut: 0,
+    crossfade: 500,
+    wipe: 600,
+    fade_black: 1000,
+    shake: 400,
+    flash: 200,
+    tint: 500,
+    weather: 800,
+};
+
+export class SceneEffects extends EventEmitter {
+    private static _instance: SceneEffects;
+    public static get instance(): SceneEffects {
+        if (!SceneEffects._instance) {
+            SceneEffects._instance = new SceneEffects();
+        }
+        return SceneEffects._instance;
+    }
+
+    private _background: string = '';
+    private _tint: TintState | null = null;
+    private _weather: WeatherType = 'none';
+
+    // 立即完成所有效果（无画面运行时使用，如剧情模拟）
+    private _instant: boolean = false;
+
+    private constructor() {
+        super();
+    }
+
+    // ==================== 剧情入口 ====================
+
+    /**
+     * 播放节点的场景效果：先切换背景，再依次执行 scene 效果
+     */
+    async playNode(node: StoryNode): Promise<void> {
+        if (node.background && node.background !== this._background) {
+            const transition = node.transition || {};
+            await this.changeBackground(node.background, transition.type, transition.duration);
+        }
+
+        if (node.effects) {
+            await this.playEffects(node.effects);
+        }
+    }
+
+    /**
+     * 依次执行效果列表中的 scene 效果
+     * value 为参数对象，wait 为 false 时不等待该效果结束
+     */
+    async playEffects(effects: Effect[]): Promise<void> {
+        for (const effect of effects) {
+            if (effect.type !== 'scene') continue;
+
+            const params = effect.value || {};
+            const done = this.playEffect(effect.target, params);
+            if (params.wait !== false) {
+                await done;
+            }
+        }
+    }
+
+    private playEffect(target: string, params: any): Promise<void> {
+        switch (target) {
+            case 'background':
+                return this.changeBackground(params.name, params.transition, params.duration);
+            case 'shake':
+                return this.shake(params.intensity, params.duration);
+            case 'flash':
+                return this.flash(params.color, params.duration);
+            case 'tint':
+                return this.setTint(params.color ? { color: params.color, alpha: params.alpha ?? 0.3 } : null, params.duration);
+            case 'weather':
+                return this.setWeather(params.kind || 'none', params.duration);
+            default:
+                console.warn(`[SceneEffects] 未知场景效果: ${target}`);
+                return Promise.resolve();
+        }
+    }
+
+    // ==================== 效果 ====================
+
+    /**
+     * 切换背景
+     */
+    changeBackground(background: string, transition: TransitionType = 'cut', duration?: number): Promise<void> {
+        if (!TRANSITION_TYPES.includes(transition)) {
+            console.warn(`[SceneEffects] 未知转场: ${transition}，使用cut`);
+            transition = 'cut';
+        }
+
+        const previous = this._background;
+        const time = this.resolveDuration(transition, duration);
+        this._background = background;
+
+        console.log(`[SceneEffects] 切换背景: ${previous || '无'} -> ${background} (${transition} ${time}ms)`);
+        this.emit('backgroundChanged', { background, previous, transition, duration: time });
+        return this.wait(time);
+    }
+
+    /**
+     * 屏幕震动（设置中关闭震动时跳过）
+     */
+    shake(intensity: number = 10, duration?: number): Promise<void> {
+        if (!SettingsManager.instance.get('screenShake')) {
+            return Promise.resolve();
+        }
+
+        const time = this.resolveDuration('shake', duration);
+        this.emit('shake', { intensity, duration: time });
+        return this.wait(time);
+    }
+
+    /**
+     * 闪白（或其他颜色）
+     */
+    flash(color: string = '#ffffff', duration?: number): Promise<void> {
+        const time = this.resolveDuration('flash', duration);
+        this.emit('flash', { color, duration: time });
+        return this.wait(time);
+    }
+
+    /**
+     * 设置色调叠加，null 表示清除
+     */
+    setTint(tint: TintState | null, duration?: number): Promise<void> {
+        const time = this.resolveDuration('tint', duration);
+        this._tint = tint;
+
+        this.emit('tintChanged', { tint, duration: time });
+        return this.wait(time);
+    }
+
+    /**
+     * 设置天气叠加
+     */
+    setWeather(weather: WeatherType, duration?: number): Promise<void> {
+        if (!WEATHER_TYPES.includes(weather)) {
+            console.warn(`[SceneEffects] 未知天气: ${weather}`);
+            return Promise.resolve();
+        }
+
+        const time = this.resolveDuration('weather', duration);
+        this._weather = weather;
+
+        this.emit('weatherChanged', { weather, duration: time });
+        return this.wait(time);
+    }
+
+    // ==================== 查询 ====================
+
+    getBackground(): string {
+        return this._background;
+    }
+
+    getTint(): TintState | null {
+        return this._tint;
+    }
+
+    getWeather(): WeatherType {
+        return this._weather;
+    }
+
+    // ==================== 工具方法 ====================
+
+    /**
+     * 设置是否立即完成所有效果（状态与事件照常更新）
+     */
+    setInstant(enabled: boolean) {
+        this._instant = enabled;
+    }
+
+    /**
+     * 计算时长：快进或立即模式下所有效果立即完成
+     */
+    private resolveDuration(kind: keyof typeof DEFAULT_DURATIONS, duration?: number): number {
+        if (this._instant || DialogSystem.instance.isSkipping()) return 0;
+        return Math.max(0, duration ?? DEFAULT_DURATIONS[kind]);
+    }
+
+    private wait(ms: number): Promise<void> {
+        if (ms <= 0) return Promise.resolve();
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    // ==================== 存档相关 ====================
+
+    /**
+     * 导出场景状态
+     */
+    exportData(): SceneState {
+        return {
+            background: this._background,
+            tint: this._tint ? { ...this._tint } : null,
+            weather: this._weather,
+        };
+    }
+
+    /**
+     * 导入场景状态（立即生效，无转场）
+     */
+    importData(data: Partial<SceneState> | undefined) {
+        this._background = data?.background || '';
+        this._tint = data?.tint || null;
+        this._weather = data?.weather || 'none';
+
+        this.emit('sceneRestored', this.exportData());
+    }
+
+    /**
+     * 重置
+     */
+    reset() {
+        this.importData(undefined);
+    }
+}
+
+export const Scene = SceneEffects.instance;
@@ -25,9 +25,13 @@ export interface GameSettings {
     // 辅助
     screenShake: boolean;    // 屏幕震动
     textAnimation: boolean;  // 文字动画
+    choiceHints: boolean;    // 选项好感度提示（达成第一个结局后可用）
     
     // 语言
     language: 'zh_CN' | 'en_US';
+    
+    // 调试
+    debugSeed: number | null;  // 固定随机种子，新游戏生效（null 为每局随机）
 }
 
 // 默认设置
@@ -50,9 +54,13 @@ const DEFAULT_SETTINGS: GameSettings = {
     // 辅助
     screenShake: true,
     textAnimation: true,
+    choiceHints: false,
     
     // 语言
     language: 'zh_CN',
+    
+    // 调试
+    debugSeed: null,
 };
 
 const STORAGE_KEY = 'game_settings';
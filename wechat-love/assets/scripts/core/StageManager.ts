@@ -0,0 +1,268 @@
+/**
+ * 登场角色 - StageManager
+ * 维护舞台上的角色（左/中/右站位、姿态、前后层级）与说话者高亮
+ * 节点通过 character/characters 描述变化，未提及的角色保持在场
+ *
+ * 本模块只维护舞台状态，具体画面由监听事件的视图组件表现：
+ *   characterEntered / characterExited / poseChanged / characterMoved / orderChanged
+ *   highlightChanged / stageCleared / stageRestored
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { NodeType, StoryNode, StageDirection, StagePosition } from './StoryTypes';
+
+// 在场角色
+export interface StageCharacter {
+    id: string;
+    pose: string;
+    position: StagePosition;
+}
+
+// 舞台状态（存档/快照使用）
+export interface StageState {
+    characters: StageCharacter[];  // 由后到前
+    speaker: string;               // 高亮的角色，为空时不压暗任何人
+}
+
+const DEFAULT_POSE = 'normal';
+const DEFAULT_POSITION: StagePosition = 'center';
+
+export class StageManager extends EventEmitter {
+    private static _instance: StageManager;
+    public static get instance(): StageManager {
+        if (!StageManager._instance) {
+            StageManager._instance = new StageManager();
+        }
+        return StageManager._instance;
+    }
+
+    // 在场角色（数组顺序即层级，末尾在最前）
+    private _characters: StageCharacter[] = [];
+
+    // 高亮的角色
+    private _speaker: string = '';
+
+    private constructor() {
+        super();
+    }
+
+    // ==================== 剧情入口 ====================
+
+    /**
+     * 应用节点的角色变化，并高亮说话者
+     * 所有操作都是幂等的，回退或读档后重新进入节点不会改变结果
+     */
+    applyNode(node: StoryNode) {
+        if (node.character) {
+            const { id, pose, position, fade } = node.character;
+            this.apply({ id, pose, position: position as StagePosition, fade });
+        }
+        for (const direction of node.characters || []) {
+            this.apply(direction);
+        }
+
+        if (node.type === NodeType.DIALOG) {
+            // 说话者不在场时（如 ???），高亮本节点显示的角色
+            const speaker = node.speaker && this.has(node.speaker) ? node.speaker : node.character?.id;
+            this.setSpeaker(speaker || '');
+        } else if (node.type === NodeType.NARRATION) {
+            this.setSpeaker('');
+        }
+    }
+
+    /**
+     * 应用单个角色变化
+     */
+    apply(direction: StageDirection) {
+        const { id, pose, position, fade } = direction;
+
+        switch (direction.action) {
+            case 'exit':
+                this.exit(id, fade);
+                break;
+            case 'pose':
+                if (pose) this.setPose(id, pose);
+                break;
+            case 'move':
+                if (position) this.move(id, position);
+                break;
+            case 'front':
+                this.bringToFront(id);
+                break;
+            case 'enter':
+            default:
+                this.enter(id, pose, position, fade);
+        }
+    }
+
+    // ==================== 操作 ====================
+
+    /**
+     * 登场（已在场时只更新指定的姿态与位置）
+     */
+    enter(id: string, pose?: string, position?: StagePosition, fade?: string) {
+        if (this.has(id)) {
+            if (pose) this.setPose(id, pose);
+            if (position) this.move(id, position);
+            return;
+        }
+
+        const character: StageCharacter = { id, pose: pose || DEFAULT_POSE, position: position || DEFAULT_POSITION };
+        this._characters.push(character);
+
+        console.log(`[StageManager] 登场: ${id} (${pose}, ${position})`);
+        this.emit('characterEntered', { ...character, fade, order: this.getOrder() });
+    }
+
+    /**
+     * 退场
+     */
+    exit(id: string, fade?: string) {
+        const index = this._characters.findIndex(c => c.id === id);
+        if (index === -1) return;
+
+        this._characters.splice(index, 1);
+        if (this._speaker === id) {
+            this.setSpeaker('');
+        }
+
+        console.log(`[StageManager] 退场: ${id}`);
+        this.emit('characterExited', { id, fade, order: this.getOrder() });
+    }
+
+    /**
+     * 更换姿态
+     */
+    setPose(id: string, pose: string) {
+        const character = this.find(id);
+        if (!character || character.pose === pose) return;
+
+        character.pose = pose;
+        this.emit('poseChanged', { id, pose });
+    }
+
+    /**
+     * 移动到其他站位
+     */
+    move(id: string, position: StagePosition) {
+        const character = this.find(id);
+        if (!character || character.position === position) return;
+
+        const from = character.position;
+        character.position = position;
+        this.emit('characterMoved', { id, from, to: position });
+    }
+
+    /**
+     * 置于最前
+     */
+    bringToFront(id: string) {
+        const index = this._characters.findIndex(c => c.id === id);
+        if (index === -1 || index === this._characters.length - 1) return;
+
+        const [character] = this._characters.splice(index, 1);
+        this._characters.push(character);
+        this.emit('orderChanged', this.getOrder());
+    }
+
+    /**
+     * 设置高亮的说话者：在场时其他角色压暗，为空时全部正常显示
+     */
+    setSpeaker(id: string) {
+        const speaker = id && this.has(id) ? id : '';
+        if (this._speaker === speaker) return;
+
+        this._speaker = speaker;
+        this.emit('highlightChanged', { speaker, dimmed: this.getDimmed() });
+    }
+
+    /**
+     * 清空舞台（开始新章节时）
+     */
+    clear() {
+        if (this._characters.length === 0) return;
+
+        this._characters = [];
+        this._speaker = '';
+        this.emit('stageCleared');
+    }
+
+    // ==================== 查询 ====================
+
+    has(id: string): boolean {
+        return this._characters.some(c => c.id === id);
+    }
+
+    getCharacter(id: string): StageCharacter | undefined {
+        const character = this.find(id);
+        return character && { ...character };
+    }
+
+    /**
+     * 在场角色，由后到前
+     */
+    getCharacters(): StageCharacter[] {
+        return this._characters.map(c => ({ ...c }));
+    }
+
+    /**
+     * 某站位上的角色，由后到前
+     */
+    getCharactersAt(position: StagePosition): StageCharacter[] {
+        return this.getCharacters().filter(c => c.position === position);
+    }
+
+    /**
+     * 层级顺序（角色ID，由后到前）
+     */
+    getOrder(): string[] {
+        return this._characters.map(c => c.id);
+    }
+
+    getSpeaker(): string {
+        return this._speaker;
+    }
+
+    /**
+     * 被压暗的角色
+     */
+    getDimmed(): string[] {
+        if (!this._speaker) return [];
+        return this.getOrder().filter(id => id !== this._speaker);
+    }
+
+    private find(id: string): StageCharacter | undefined {
+        return this._characters.find(c => c.id === id);
+    }
+
+    // ==================== 存档相关 ====================
+
+    /**
+     * 导出舞台状态
+     */
+    exportData(): StageState {
+        return {
+            characters: this.getCharacters(),
+            speaker: this._speaker,
+        };
+    }
+
+    /**
+     * 导入舞台状态（立即生效，无淡入淡出）
+     */
+    importData(data: Partial<StageState> | undefined) {
+        this._characters = (data?.characters || []).map(c => ({ ...c }));
+        this._speaker = data?.speaker && this.has(data.speaker) ? data.speaker : '';
+
+        this.emit('stageRestored', this.exportData());
+    }
+
+    /**
+     * 重置
+     */
+    reset() {
+        this.importData(undefined);
+    }
+}
+
+export const Stage = StageManager.instance;
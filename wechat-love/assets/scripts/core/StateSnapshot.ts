@@ -0,0 +1,70 @@
+/**
+ * 状态快照 - StateSnapshot
+ * 基于各系统的exportData/importData捕获与恢复某一时刻的游戏状态
+ * 供对话记录回跳、回退等功能共用
+ */
+
+import { StoryManager } from './StoryManager';
+import { CharacterSystem } from './CharacterSystem';
+import { FlagManager } from './FlagManager';
+import { InventorySystem } from './InventorySystem';
+import { PlayerManager } from './PlayerManager';
+import { VariableStore, VariableValue } from './VariableStore';
+import { SceneEffects, SceneState } from './SceneEffects';
+import { AudioManager, AudioState } from './AudioManager';
+import { StageManager, StageState } from './StageManager';
+import { RandomService, RandomState } from './RandomService';
+
+// 游戏状态快照
+export interface GameSnapshot {
+    story: any;
+    characters: Record<string, any>;
+    flags: Record<string, boolean>;
+    variables: Record<string, VariableValue>;
+    inventory: any;
+    player: { name: string; surname: string; givenName: string; attributes: Record<string, number> };
+    scene: SceneState;
+    audio: AudioState;
+    stage: StageState;
+    random: RandomState;
+}
+
+/**
+ * 捕获当前状态（深拷贝，之后的修改不会影响快照）
+ */
+export function captureSnapshot(): GameSnapshot {
+    return clone({
+        story: StoryManager.instance.exportData(),
+        characters: CharacterSystem.instance.exportData(),
+        flags: FlagManager.instance.exportData(),
+        variables: VariableStore.instance.exportData(),
+        inventory: InventorySystem.instance.exportData(),
+        player: PlayerManager.instance.exportData(),
+        scene: SceneEffects.instance.exportData(),
+        audio: AudioManager.instance.exportData(),
+        stage: StageManager.instance.exportData(),
+        random: RandomService.instance.exportData(),
+    });
+}
+
+/**
+ * 恢复快照（只恢复数据，不播放节点）
+ */
+export function restoreSnapshot(snapshot: GameSnapshot): void {
+    const data = clone(snapshot);
+
+    CharacterSystem.instance.importData(data.characters);
+    FlagManager.instance.importData(data.flags);
+    VariableStore.instance.importData(data.variables);
+    InventorySystem.instance.importData(data.inventory);
+    PlayerManager.instance.importData(data.player);
+    SceneEffects.instance.importData(data.scene);
+    AudioManager.instance.importData(data.audio);
+    StageManager.instance.importData(data.stage);
+    RandomService.instance.importData(data.random);
+    StoryManager.instance.importData(data.story);
+}
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
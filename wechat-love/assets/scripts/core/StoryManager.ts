@@ -4,28 +4,32 @@
  */
 
 import { EventEmitter } from './EventEmitter';
-import { DialogSystem, StoryNode, NodeType, ChoiceData, Effect } from './DialogSystem';
-import { CharacterSystem } from './CharacterSystem';
+import { DialogSystem } from './DialogSystem';
+import { StoryNode, NodeType, ChoiceData, Condition, Effect, Chapter, StoryConfig } from './StoryTypes';
+import { CharacterSystem, EndingConfig, FavorLevelChange } from './CharacterSystem';
+import { FlagManager } from './FlagManager';
+import { ResourceManager, ResourceType } from './ResourceManager';
+import { parseStoryConfig, formatSchemaError, COMMON_CHAPTER_ID } from './StorySchema';
 import { GameStateMachine, GameState } from './GameStateMachine';
-
-// 章节数据
-export interface Chapter {
-    id: string;
-    title: string;
-    description: string;
-    unlockCondition?: {
-        type: string;
-        value: any;
-    };
-    bgm?: string;
-    nodes: Record<string, StoryNode>;
+import { ConditionEvaluator } from './ConditionEvaluator';
+import { PlayerManager } from './PlayerManager';
+import { InventorySystem } from './InventorySystem';
+import { GlobalProgressManager } from './GlobalProgressManager';
+import { VariableStore } from './VariableStore';
+import { EndingResolver } from './EndingResolver';
+import { GalleryManager } from './GalleryManager';
+import { SceneEffects } from './SceneEffects';
+import { AudioManager, AudioType } from './AudioManager';
+import { StageManager } from './StageManager';
+
+// 调用栈帧：调用返回后继续的位置
+export interface CallFrame {
+    chapterId: string;
+    nodeId: string;          // 为空时返回后结束该章节
 }
 
-// 剧情配置
-export interface StoryConfig {
-    chapters: Chapter[];
-    commonNodes?: Record<string, any>;
-}
+// 调用最大嵌套层数
+const MAX_CALL_DEPTH = 16;
 
 export class StoryManager extends EventEmitter {
     private static _instance: StoryManager;
@@ -43,6 +47,10 @@ export class StoryManager extends EventEmitter {
     private _currentChapter: Chapter = null!;
     private _currentNodeId: string = '';
 
+    // 公共节点（虚拟章节），及调用栈
+    private _commonChapter: Chapter | null = null;
+    private _callStack: CallFrame[] = [];
+
     // 标志位（剧情内）
     private _localFlags: Map<string, boolean> = new Map();
 
@@ -52,6 +60,18 @@ export class StoryManager extends EventEmitter {
     // 历史选择
     private _choiceHistory: string[] = [];
 
+    // 已通关章节
+    private _completedChapters: Set<string> = new Set();
+
+    // 是否正在等待场景效果（转场等）结束，期间不响应推进
+    private _playingEffects: boolean = false;
+
+    // 场景回放的终点（画廊回想），到达后不再推进
+    private _sceneEnd: { chapterId: string; nodeId?: string } | null = null;
+
+    // 等待插入播放的好感场景（公共节点ID）
+    private _pendingFavorScenes: string[] = [];
+
     private constructor() {
         super();
     }
@@ -61,6 +81,7 @@ export class StoryManager extends EventEmitter {
      */
     async init() {
         await this.loadStoryConfig();
+        CharacterSystem.instance.on('favorLevelUp', (change: FavorLevelChange) => this.onFavorLevelUp(change));
         console.log('[StoryManager] 初始化完成');
     }
 
@@ -68,47 +89,30 @@ export class StoryManager extends EventEmitter {
      * 加载剧情配置
      */
     private async loadStoryConfig() {
-        // TODO: 从JSON文件加载
-        // const config = await Resources.load('data/story', JSON);
-        
-        // 使用模拟数据
-        this._config = {
-            chapters: [
-                {
-                    id: 'ch00',
-                    title: '序章 - 入学第一天',
-                    description: '故事从主角入学圣樱学院开始...',
-                    bgm: 'bgm_chapter_0',
-                    nodes: {
-                        'ch00_start': {
-                            id: 'ch00_start',
-                            type: NodeType.NARRATION,
-                            background: 'bg_school_gate',
-                            content: '九月的阳光洒在圣樱学院的校门上，我站在这里，心跳加速...',
-                            next: 'ch00_01',
-                        },
-                        'ch00_01': {
-                            id: 'ch00_01',
-                            type: NodeType.DIALOG,
-                            speaker: 'player',
-                            content: '这就是圣樱学院吗...真大啊...',
-                            next: 'ch00_02',
-                        },
-                    },
-                },
-            ],
-        };
+        const raw = await ResourceManager.instance.load<any>('game-config/story', ResourceType.JSON);
+        const { config, errors } = parseStoryConfig(raw);
+
+        if (!config) {
+            for (const error of errors) {
+                console.error(`[StoryManager] 剧情配置错误 ${formatSchemaError(error)}`);
+            }
+            this.emit('configInvalid', errors);
+            throw new Error(`[StoryManager] story.json 校验失败，共${errors.length}处错误`);
+        }
+
+        this._config = config;
+        this._commonChapter = config.commonNodes
+            ? { id: COMMON_CHAPTER_ID, title: '', description: '', nodes: config.commonNodes }
+            : null;
+        console.log(`[StoryManager] 加载剧情: ${config.chapters.length}个章节`);
     }
 
     /**
      * 开始章节
      */
     async playChapter(chapterId: string): Promise<boolean> {
-        const chapter = this._config.chapters.find(c => c.id === chapterId);
-        if (!chapter) {
-            console.error(`[StoryManager] 未找到章节: ${chapterId}`);
-            return false;
-        }
+        const chapter = this.findChapter(chapterId);
+        if (!chapter) return false;
 
         // 检查解锁条件
         if (chapter.unlockCondition && !this.checkCondition(chapter.unlockCondition)) {
@@ -118,10 +122,15 @@ export class StoryManager extends EventEmitter {
         }
 
         this._currentChapter = chapter;
+        this._callStack = [];
+
+        // 章节切换时停止快进，清空登场角色
+        DialogSystem.instance.stopSkip('chapter');
+        StageManager.instance.clear();
         
         // 播放BGM
         if (chapter.bgm) {
-            // AudioManager.playBGM(chapter.bgm);
+            AudioManager.instance.playBGM(chapter.bgm);
         }
 
         // 开始第一章
@@ -149,53 +158,206 @@ export class StoryManager extends EventEmitter {
             return false;
         }
 
+        // 节点生效前通知（此时状态尚未被该节点修改，可用于记录快照）
+        this.emit('nodeEntering', node);
+
         this._currentNodeId = nodeId;
         this._visitedNodes.add(nodeId);
 
-        // 切换游戏状态
-        const stateMachine = GameStateMachine.instance;
-        
+        // 应用节点效果
+        if (node.effects) {
+            this.applyEffects(node.effects);
+        }
+
+        // 登场角色变化与说话者高亮
+        StageManager.instance.applyNode(node);
+
+        // 节点音频（语音随对话由DialogSystem播放）
+        this.playAudio(node);
+
+        // 背景转场与场景效果，结束后才显示本节点
+        await this.waitEffects(SceneEffects.instance.playNode(node));
+
+        // 条件分支：静默求值，不显示对话框
+        if (node.type === NodeType.BRANCH) {
+            return this.playBranch(node);
+        }
+
+        // 结束节点：结束本章，进入指定章节或判定结局
+        if (node.type === NodeType.END) {
+            return this.endChapter(node.chapter);
+        }
+
+        // 调用公共节点与返回
+        if (node.type === NodeType.CALL) {
+            return this.playCall(node);
+        }
+        if (node.type === NodeType.RETURN) {
+            return this.playReturn();
+        }
+
+        this.displayNode(node);
+        return true;
+    }
+
+    /**
+     * 重新显示当前章节的节点（不再应用节点效果，用于回退后恢复画面）
+     */
+    replayNode(nodeId: string): boolean {
+        const node = this._currentChapter?.nodes[nodeId];
+        if (!node) {
+            console.error(`[StoryManager] 未找到节点: ${nodeId}`);
+            return false;
+        }
+
+        this._currentNodeId = nodeId;
+        this.displayNode(node);
+        return true;
+    }
+
+    /**
+     * 交给对话框显示节点
+     */
+    private displayNode(node: StoryNode) {
         // 监听对话框事件
         const dialogSystem = DialogSystem.instance;
-        
+
         dialogSystem.off('requestNode');
-        dialogSystem.on('requestNode', (nextNodeId: string) => {
-            this.playNode(nextNodeId);
+        dialogSystem.on('requestNode', () => {
+            this.next();
         });
 
-        dialogSystem.off('nodeSelected');
-        dialogSystem.on('nodeSelected', (nextNodeId: string) => {
-            this.playNode(nextNodeId);
+        dialogSystem.off('choiceSelected');
+        dialogSystem.on('choiceSelected', (choice: ChoiceData) => {
+            this.selectChoice(choice);
         });
 
-        // 播放节点
-        dialogSystem.playNode(node);
+        // 播放节点（先判断是否已读，再标记；回想不计入全局进度）
+        const progress = GlobalProgressManager.instance;
+        const chapterId = this._currentChapter.id;
+        dialogSystem.playNode(node, progress.isRead(chapterId, node.id), chapterId);
+
+        if (!this._sceneEnd && (node.type === NodeType.DIALOG || node.type === NodeType.NARRATION)) {
+            progress.markRead(chapterId, node.id);
+        }
 
         this.emit('nodePlayed', node);
-        return true;
+    }
+
+    /**
+     * 播放节点音频：BGM与环境音持续到下一次切换，快进时不播放音效
+     */
+    private playAudio(node: StoryNode) {
+        const audio = AudioManager.instance;
+
+        if (node.bgm) {
+            audio.applyCue(AudioType.BGM, node.bgm);
+        }
+        if (node.ambient) {
+            audio.applyCue(AudioType.AMBIENT, node.ambient);
+        }
+        if (node.sfx && !DialogSystem.instance.isSkipping()) {
+            const sfxList = Array.isArray(node.sfx) ? node.sfx : [node.sfx];
+            sfxList.forEach(name => audio.playSFX(name));
+        }
+    }
+
+    /**
+     * 播放条件分支：跳转到第一个满足条件的分支，均不满足时走默认出口
+     */
+    private async playBranch(node: StoryNode): Promise<boolean> {
+        const arm = node.branches?.find(b => this.checkConditions(b.conditions));
+        const target = arm ? arm.next : node.next;
+
+        if (!target) {
+            console.error(`[StoryManager] 分支节点没有可用出口: ${node.id}`);
+            return false;
+        }
+
+        this.emit('branchResolved', { node, target });
+        return this.playNode(target);
+    }
+
+    /**
+     * 调用公共节点：记录返回位置（调用节点的 next）后进入公共节点
+     */
+    private async playCall(node: StoryNode): Promise<boolean> {
+        const common = this._commonChapter;
+        if (!node.target || !common?.nodes[node.target]) {
+            console.error(`[StoryManager] 未找到公共节点: ${node.target}`);
+            return false;
+        }
+        if (this._callStack.length >= MAX_CALL_DEPTH) {
+            console.error(`[StoryManager] 调用层数超过上限: ${node.id}`);
+            return false;
+        }
+
+        this._callStack.push({ chapterId: this._currentChapter.id, nodeId: node.next || '' });
+        this._currentChapter = common;
+
+        this.emit('callEntered', { node, depth: this._callStack.length });
+        return this.playNode(node.target);
+    }
+
+    /**
+     * 返回调用处：调用节点没有 next 时调用方随之返回，已在最外层时结束章节
+     */
+    private async playReturn(): Promise<boolean> {
+        const frame = this._callStack.pop();
+        if (!frame) {
+            console.error('[StoryManager] 没有可返回的调用');
+            return false;
+        }
+
+        const chapter = this.findChapter(frame.chapterId);
+        if (!chapter) return false;
+        this._currentChapter = chapter;
+
+        this.emit('callReturned', { ...frame, depth: this._callStack.length });
+        if (frame.nodeId) {
+            return this.playNode(frame.nodeId);
+        }
+        return this._callStack.length > 0 ? this.playReturn() : this.endChapter();
     }
 
     /**
      * 下一节点
      */
     async next(): Promise<boolean> {
-        if (!this._currentChapter) return false;
+        if (!this._currentChapter || this._playingEffects) return false;
+
+        this.emit('beforeAdvance', { chapterId: this._currentChapter.id, nodeId: this._currentNodeId });
+
+        if (this.isAtSceneEnd()) {
+            return this.endScene();
+        }
 
         const currentNode = this._currentChapter.nodes[this._currentNodeId];
         if (!currentNode || !currentNode.next) {
-            // 章节结束
+            // 公共节点没有后续时视为返回，否则章节结束
+            if (this._callStack.length > 0) {
+                return this.playReturn();
+            }
             return this.endChapter();
         }
 
-        return this.playNode(currentNode.next);
+        return this.advanceTo(currentNode.next);
     }
 
     /**
      * 选择选项
      */
     async selectChoice(choice: ChoiceData): Promise<boolean> {
-        // 记录选择
+        if (this._playingEffects) return false;
+
+        this.emit('beforeAdvance', { chapterId: this._currentChapter?.id, nodeId: this._currentNodeId });
+
+        // 记录选择（本周目与全局，回想不计入全局进度）
         this._choiceHistory.push(choice.id);
+        if (!this._sceneEnd) {
+            GlobalProgressManager.instance.recordChoice(this._currentChapter.id, this._currentNodeId, choice.id);
+        }
+        this.emit('choiceMade', { nodeId: this._currentNodeId, choice });
 
         // 应用效果
         if (choice.effects) {
@@ -210,8 +372,17 @@ export class StoryManager extends EventEmitter {
             }
         }
 
+        if (this.isAtSceneEnd()) {
+            return this.endScene();
+        }
+
+        // 选项的场景效果
+        if (choice.effects) {
+            await this.waitEffects(SceneEffects.instance.playEffects(choice.effects));
+        }
+
         // 跳转到下一节点
-        return this.playNode(choice.next);
+        return this.advanceTo(choice.next);
     }
 
     /**
@@ -220,53 +391,200 @@ export class StoryManager extends EventEmitter {
     private applyEffects(effects: Effect[]) {
         for (const effect of effects) {
             switch (effect.type) {
+                case 'favor':
+                    CharacterSystem.instance.changeFavor(effect.target, effect.value);
+                    break;
                 case 'flag':
-                    this.setLocalFlag(effect.target, effect.value);
+                    this.setFlag(effect.target, effect.value);
+                    break;
+                case 'attribute':
+                    PlayerManager.instance.changeAttribute(effect.target, effect.value);
+                    break;
+                case 'item':
+                    this.changeItem(effect.target, effect.value);
+                    break;
+                case 'var':
+                    VariableStore.instance.apply(effect.target, effect.op || 'set', effect.value);
                     break;
                 case 'unlock':
-                    // TODO: 解锁内容
+                    this.unlockContent(effect.target);
                     break;
                 case 'scene':
-                    // TODO: 切换场景
+                    // 由SceneEffects在显示节点前执行（可等待）
                     break;
             }
         }
     }
 
+    /**
+     * 获得/失去道具：正数为获得，负数为失去
+     */
+    private changeItem(itemId: string, count: number) {
+        const inventory = InventorySystem.instance;
+        if (count > 0) {
+            inventory.addItem(itemId, count);
+        } else if (count < 0) {
+            inventory.removeItem(itemId, -count);
+        }
+    }
+
+    /**
+     * 等待场景效果结束
+     */
+    private async waitEffects(effects: Promise<void>) {
+        this._playingEffects = true;
+        try {
+            await effects;
+        } finally {
+            this._playingEffects = false;
+        }
+    }
+
+    /**
+     * 解锁内容：已登记的CG计入画廊，其余内容由监听方处理
+     */
+    private unlockContent(contentId: string) {
+        const gallery = GalleryManager.instance;
+        if (gallery.has(contentId)) {
+            gallery.unlock(contentId);
+        }
+        this.emit('contentUnlocked', contentId);
+    }
+
     /**
      * 结束章节
+     * @param nextChapterId 结束节点指定的下一章节，缺省时按顺序进入下一个非结局章节
      */
-    private async endChapter(): Promise<boolean> {
-        const currentIndex = this._config.chapters.findIndex(
-            c => c.id === this._currentChapter?.id
-        );
+    private async endChapter(nextChapterId?: string): Promise<boolean> {
+        // 场景回放到章节结束为止
+        if (this._sceneEnd) {
+            return this.endScene();
+        }
 
-        if (currentIndex < this._config.chapters.length - 1) {
-            // 下一章节
-            const nextChapter = this._config.chapters[currentIndex + 1];
-            return this.playChapter(nextChapter.id);
+        const chapter = this._currentChapter;
+        if (chapter) {
+            this.markChapterCompleted(chapter.id);
         }
 
-        // 全部结束
-        const stateMachine = GameStateMachine.instance;
-        stateMachine.changeState(GameState.ENDING);
-        
-        this.emit('storyEnded');
+        // 结局章节播放完毕
+        if (chapter?.isEnding) {
+            const ending = CharacterSystem.instance.getEndingConfigs().find(e => e.chapter === chapter.id);
+            return this.finishEnding(ending || null);
+        }
+
+        if (!nextChapterId) {
+            const currentIndex = this._config.chapters.findIndex(c => c.id === chapter?.id);
+            nextChapterId = this._config.chapters.slice(currentIndex + 1).find(c => !c.isEnding)?.id;
+        }
+
+        if (nextChapterId) {
+            return this.playChapter(nextChapterId);
+        }
+
+        // 主线结束，判定结局
+        const ending = EndingResolver.instance.resolve();
+        if (!ending) {
+            return this.finishEnding(null);
+        }
+
+        return this.playEnding(ending.id);
+    }
+
+    /**
+     * 播放结局：记录结局，有结局章节时先播放章节
+     */
+    async playEnding(endingId: string): Promise<boolean> {
+        const ending = CharacterSystem.instance.getEndingConfig(endingId);
+        if (!ending) {
+            console.error(`[StoryManager] 未找到结局: ${endingId}`);
+            return false;
+        }
+
+        EndingResolver.instance.record(ending);
+        this.emit('endingStarted', ending);
+
+        if (ending.chapter && this.findChapter(ending.chapter)) {
+            return this.playChapter(ending.chapter);
+        }
+
+        return this.finishEnding(ending);
+    }
+
+    /**
+     * 结局结束：收起对话框，进入结局状态
+     */
+    private finishEnding(ending: EndingConfig | null): boolean {
+        const dialogSystem = DialogSystem.instance;
+        dialogSystem.stopSkip('ending');
+        dialogSystem.hide();
+
+        GameStateMachine.instance.changeState(GameState.ENDING);
+
+        this.emit('storyEnded', ending);
         return true;
     }
 
     /**
      * 检查条件
      */
-    checkCondition(condition: { type: string; value: any }): boolean {
-        switch (condition.type) {
-            case 'chapter':
-                // 已通过某章节
-                return this._visitedNodes.size > 0;
-            case 'flag':
-                return this.getLocalFlag(condition.target || '');
-            default:
-                return true;
+    checkCondition(condition: Condition): boolean {
+        return ConditionEvaluator.instance.evaluate(condition);
+    }
+
+    /**
+     * 检查多个条件（与运算）
+     */
+    checkConditions(conditions: Condition[]): boolean {
+        return ConditionEvaluator.instance.evaluateAll(conditions);
+    }
+
+    /**
+     * 标记章节已通关
+     */
+    private markChapterCompleted(chapterId: string) {
+        if (this._completedChapters.has(chapterId)) return;
+        this._completedChapters.add(chapterId);
+        this.emit('chapterCompleted', chapterId);
+    }
+
+    /**
+     * 章节是否已通关
+     */
+    isChapterCompleted(chapterId: string): boolean {
+        return this._completedChapters.has(chapterId);
+    }
+
+    /**
+     * 节点是否已访问
+     */
+    hasVisited(nodeId: string): boolean {
+        return this._visitedNodes.has(nodeId);
+    }
+
+    /**
+     * 获取历史选择
+     */
+    getChoiceHistory(): string[] {
+        return [...this._choiceHistory];
+    }
+
+    /**
+     * 获取标志位：已在FlagManager中定义的走全局标志位，其余为剧情内标志位
+     */
+    getFlag(flag: string): boolean {
+        const flags = FlagManager.instance;
+        return flags.getDefinition(flag) ? flags.get(flag) : this.getLocalFlag(flag);
+    }
+
+    /**
+     * 设置标志位
+     */
+    setFlag(flag: string, value: boolean): void {
+        const flags = FlagManager.instance;
+        if (flags.getDefinition(flag)) {
+            flags.set(flag, value);
+        } else {
+            this.setLocalFlag(flag, value);
         }
     }
 
@@ -295,15 +613,148 @@ export class StoryManager extends EventEmitter {
     }
 
     /**
-     * 跳转到指定节点
+     * 获取章节配置（公共节点为虚拟章节 common）
+     */
+    getChapter(chapterId: string): Chapter | null {
+        return this.findChapter(chapterId);
+    }
+
+    /**
+     * 获取所有章节（按配置顺序，不含公共节点）
+     */
+    getChapters(): Chapter[] {
+        return this._config ? [...this._config.chapters] : [];
+    }
+
+    /**
+     * 获取调用栈（由外到内）
+     */
+    getCallStack(): CallFrame[] {
+        return this._callStack.map(frame => ({ ...frame }));
+    }
+
+    /**
+     * 恢复调用栈（读档时，随后调用jumpTo）
+     */
+    setCallStack(frames: CallFrame[] | undefined) {
+        this._callStack = (frames || []).map(frame => ({ ...frame }));
+    }
+
+    /**
+     * 跳转到指定节点（不检查解锁条件，也不播放章节首节点）
      */
     async jumpTo(chapterId: string, nodeId: string): Promise<boolean> {
         if (chapterId !== this._currentChapter?.id) {
-            await this.playChapter(chapterId);
+            const chapter = this.findChapter(chapterId);
+            if (!chapter) return false;
+            this._currentChapter = chapter;
         }
         return this.playNode(nodeId);
     }
 
+    // ==================== 好感场景 ====================
+
+    /**
+     * 好感等级提升：跨过的等级中有未播放过的好感场景时排队，在下一次推进时播放
+     */
+    private onFavorLevelUp({ characterId, oldLevel, newLevel }: FavorLevelChange) {
+        if (this._sceneEnd) return;
+
+        for (const scene of this._config?.favorScenes || []) {
+            if (scene.character !== characterId || scene.level <= oldLevel || scene.level > newLevel) continue;
+            if (this._visitedNodes.has(scene.target) || this._pendingFavorScenes.includes(scene.target)) continue;
+
+            this._pendingFavorScenes.push(scene.target);
+            this.emit('favorSceneQueued', scene);
+        }
+    }
+
+    /**
+     * 进入下一节点：有待播放的好感场景时先调用该场景，返回后再进入该节点
+     */
+    private async advanceTo(nodeId: string): Promise<boolean> {
+        const target = this._pendingFavorScenes[0];
+        if (!target || this._sceneEnd || !this._commonChapter || this._callStack.length >= MAX_CALL_DEPTH) {
+            return this.playNode(nodeId);
+        }
+
+        this._pendingFavorScenes.shift();
+        this._callStack.push({ chapterId: this._currentChapter.id, nodeId });
+        this._currentChapter = this._commonChapter;
+
+        this.emit('favorSceneStarted', { target, depth: this._callStack.length });
+        return this.playNode(target);
+    }
+
+    // ==================== 场景回放 ====================
+
+    /**
+     * 回放一段场景：从起始节点播放到终点节点（缺省为章节结束），不进入后续剧情
+     */
+    async playScene(chapterId: string, startNodeId: string, endNodeId?: string): Promise<boolean> {
+        this._sceneEnd = { chapterId, nodeId: endNodeId };
+        this._callStack = [];
+        StageManager.instance.clear();
+        this.emit('sceneStarted', { chapterId, startNodeId, endNodeId });
+        return this.jumpTo(chapterId, startNodeId);
+    }
+
+    /**
+     * 中止场景回放
+     */
+    stopScene() {
+        if (this._sceneEnd) {
+            this.endScene();
+        }
+    }
+
+    /**
+     * 是否在回放场景
+     */
+    isPlayingScene(): boolean {
+        return !!this._sceneEnd;
+    }
+
+    /**
+     * 当前节点是否为回放终点
+     */
+    private isAtSceneEnd(): boolean {
+        return !!this._sceneEnd
+            && this._sceneEnd.chapterId === this._currentChapter?.id
+            && this._sceneEnd.nodeId === this._currentNodeId;
+    }
+
+    /**
+     * 回放结束：收起对话框
+     */
+    private endScene(): boolean {
+        const scene = this._sceneEnd;
+        this._sceneEnd = null;
+
+        const dialogSystem = DialogSystem.instance;
+        dialogSystem.stopSkip('scene');
+        dialogSystem.hide();
+
+        this.emit('sceneEnded', scene);
+        return true;
+    }
+
+    /**
+     * 查找章节
+     */
+    private findChapter(chapterId: string): Chapter | null {
+        if (chapterId === COMMON_CHAPTER_ID && this._commonChapter) {
+            return this._commonChapter;
+        }
+
+        const chapter = this._config.chapters.find(c => c.id === chapterId);
+        if (!chapter) {
+            console.error(`[StoryManager] 未找到章节: ${chapterId}`);
+            return null;
+        }
+        return chapter;
+    }
+
     /**
      * 导出剧情数据（用于存档）
      */
@@ -311,8 +762,10 @@ export class StoryManager extends EventEmitter {
         return {
             currentChapter: this._currentChapter?.id,
             currentNode: this._currentNodeId,
+            callStack: this.getCallStack(),
             visitedNodes: Array.from(this._visitedNodes),
-            choiceHistory: this._choiceHistory,
+            choiceHistory: [...this._choiceHistory],
+            completedChapters: Array.from(this._completedChapters),
             localFlags: Object.fromEntries(this._localFlags),
         };
     }
@@ -321,21 +774,23 @@ export class StoryManager extends EventEmitter {
      * 导入剧情数据（用于读档）
      */
     importData(data: any) {
-        if (data.currentChapter) {
-            this.playChapter(data.currentChapter);
-        }
-        if (data.currentNode) {
-            this._currentNodeId = data.currentNode;
-        }
+        // 只恢复状态，不播放节点；继续播放时调用replayNode重新显示当前节点
+        this._currentChapter = data.currentChapter ? this.findChapter(data.currentChapter)! : null!;
+        this._currentNodeId = data.currentNode || '';
+        this.setCallStack(data.callStack);
         if (data.visitedNodes) {
             this._visitedNodes = new Set(data.visitedNodes);
         }
         if (data.choiceHistory) {
-            this._choiceHistory = data.choiceHistory;
+            this._choiceHistory = [...data.choiceHistory];
         }
         if (data.localFlags) {
             this._localFlags = new Map(Object.entries(data.localFlags));
         }
+        if (data.completedChapters) {
+            this._completedChapters = new Set(data.completedChapters);
+        }
+        this._pendingFavorScenes = [];
     }
 
     /**
@@ -344,8 +799,12 @@ export class StoryManager extends EventEmitter {
     reset() {
         this._currentChapter = null!;
         this._currentNodeId = '';
+        this._callStack = [];
+        this._sceneEnd = null;
+        this._pendingFavorScenes = [];
         this._localFlags.clear();
         this._visitedNodes.clear();
         this._choiceHistory = [];
+        this._completedChapters.clear();
     }
 }
@@ -0,0 +1,575 @@
+/**
+ * 剧情配置校验 - StorySchema
+ * 将story.json的原始数据校验并转换为Chapter/StoryNode结构
+ * 校验失败时按节点给出错误，供StoryManager与编辑器工具使用
+ */
+
+import { NodeType, StoryNode, ChoiceData, Condition, Effect, Chapter, StoryConfig, FavorScene } from './StoryTypes';
+
+// 校验错误
+export interface StorySchemaError {
+    chapterId?: string;
+    nodeId?: string;
+    path: string;        // 出错字段路径，如 choices[1].next
+    message: string;
+}
+
+// 校验结果
+export interface StoryParseResult {
+    config: StoryConfig | null;
+    errors: StorySchemaError[];
+}
+
+const NODE_TYPES: string[] = Object.values(NodeType);
+const CONDITION_TYPES: string[] = [
+    'flag', 'chapter', 'visited',
+    'favor', 'favor_level',
+    'item', 'currency', 'attribute', 'play_time',
+    'var',
+    'all', 'any', 'not',
+];
+const COMBINATOR_TYPES: string[] = ['all', 'any', 'not'];
+const COMPARE_OPS: string[] = ['>=', '<=', '=='];
+const EFFECT_TYPES: string[] = ['favor', 'flag', 'item', 'scene', 'unlock', 'attribute', 'var'];
+const VARIABLE_OPS: string[] = ['set', 'add', 'sub', 'toggle', 'min', 'max'];
+const CHARACTER_POSITIONS: string[] = ['left', 'center', 'right'];
+const STAGE_ACTIONS: string[] = ['enter', 'exit', 'pose', 'move', 'front'];
+const TRANSITION_TYPES: string[] = ['cut', 'crossfade', 'wipe', 'fade_black'];
+const SCENE_EFFECT_TARGETS: string[] = ['background', 'shake', 'flash', 'tint', 'weather'];
+
+// 必须有文本内容的节点类型
+const CONTENT_REQUIRED: string[] = [NodeType.DIALOG, NodeType.NARRATION, NodeType.EVENT, NodeType.CHOICE];
+
+// 公共节点所在的虚拟章节ID（多语言键、已读记录、存档进度中使用），章节不能使用此ID
+export const COMMON_CHAPTER_ID = 'common';
+
+// ==================== 多语言键 ====================
+
+/**
+ * 章节标题的默认多语言键
+ */
+export function chapterTitleKey(chapterId: string): string {
+    return `story.${chapterId}.title`;
+}
+
+/**
+ * 节点文本的默认多语言键
+ */
+export function nodeContentKey(chapterId: string, nodeId: string): string {
+    return `story.${chapterId}.${nodeId}`;
+}
+
+/**
+ * 选项文本的默认多语言键
+ */
+export function choiceTextKey(chapterId: string, nodeId: string, choiceId: string): string {
+    return `story.${chapterId}.${nodeId}.${choiceId}`;
+}
+
+/**
+ * 格式化校验错误（用于日志输出）
+ */
+export function formatSchemaError(error: StorySchemaError): string {
+    const location = [error.chapterId, error.nodeId].filter(Boolean).join('/');
+    return location
+        ? `[${location}] ${error.path}: ${error.message}`
+        : `${error.path}: ${error.message}`;
+}
+
+/**
+ * 校验并解析剧情配置
+ */
+export function parseStoryConfig(raw: any): StoryParseResult {
+    const errors: StorySchemaError[] = [];
+
+    if (!isObject(raw)) {
+        errors.push({ path: '$', message: '剧情配置必须是对象' });
+        return { config: null, errors };
+    }
+
+    if (!Array.isArray(raw.chapters) || raw.chapters.length === 0) {
+        errors.push({ path: 'chapters', message: '必须是非空数组' });
+        return { config: null, errors };
+    }
+
+    const chapters: Chapter[] = [];
+    const chapterIds = new Set<string>();
+
+    raw.chapters.forEach((rawChapter: any, index: number) => {
+        const chapter = parseChapter(rawChapter, `chapters[${index}]`, errors);
+        if (!chapter) return;
+
+        if (chapterIds.has(chapter.id)) {
+            errors.push({ chapterId: chapter.id, path: `chapters[${index}].id`, message: '章节ID重复' });
+            return;
+        }
+        if (chapter.id === COMMON_CHAPTER_ID) {
+            errors.push({ chapterId: chapter.id, path: `chapters[${index}].id`, message: `${COMMON_CHAPTER_ID} 保留给公共节点` });
+            return;
+        }
+        chapterIds.add(chapter.id);
+        chapters.push(chapter);
+    });
+
+    const commonNodes = parseCommonNodes(raw.commonNodes, errors);
+    const favorScenes = parseFavorScenes(raw.favorScenes, commonNodes || {}, errors);
+
+    if (errors.length > 0) {
+        return { config: null, errors };
+    }
+
+    return {
+        config: {
+            chapters,
+            commonNodes,
+            favorScenes,
+        },
+        errors,
+    };
+}
+
+/**
+ * 解析公共节点（按虚拟章节 common 校验，不能包含结束节点）
+ */
+function parseCommonNodes(raw: any, errors: StorySchemaError[]): Record<string, StoryNode> | undefined {
+    if (raw === undefined) return undefined;
+    if (!isObject(raw)) {
+        errors.push({ path: 'commonNodes', message: '必须是对象' });
+        return undefined;
+    }
+
+    const nodes: Record<string, StoryNode> = {};
+    for (const [nodeId, rawNode] of Object.entries<any>(raw)) {
+        const node = parseNode(COMMON_CHAPTER_ID, nodeId, rawNode, errors);
+        if (!node) continue;
+
+        if (node.type === NodeType.END) {
+            errors.push({ chapterId: COMMON_CHAPTER_ID, nodeId, path: 'type', message: `公共节点不能是 ${NodeType.END} 节点，请使用 ${NodeType.RETURN}` });
+        }
+        nodes[nodeId] = node;
+    }
+    return nodes;
+}
+
+/**
+ * 解析好感场景（目标必须是公共节点）
+ */
+function parseFavorScenes(raw: any, commonNodes: Record<string, StoryNode>, errors: StorySchemaError[]): FavorScene[] | undefined {
+    if (raw === undefined) return undefined;
+    if (!Array.isArray(raw)) {
+        errors.push({ path: 'favorScenes', message: '必须是数组' });
+        return undefined;
+    }
+
+    const scenes: FavorScene[] = [];
+    raw.forEach((scene: any, index: number) => {
+        const path = `favorScenes[${index}]`;
+        if (!isObject(scene)) {
+            errors.push({ path, message: '必须是对象' });
+            return;
+        }
+
+        const before = errors.length;
+        if (!isNonEmptyString(scene.character)) errors.push({ path: `${path}.character`, message: '缺少角色ID' });
+        if (!(Number.isInteger(scene.level) && scene.level > 1)) errors.push({ path: `${path}.level`, message: '必须是大于1的整数' });
+        if (!isNonEmptyString(scene.target)) {
+            errors.push({ path: `${path}.target`, message: '缺少公共节点ID' });
+        } else if (!commonNodes[scene.target]) {
+            errors.push({ path: `${path}.target`, message: `公共节点不存在: ${scene.target}` });
+        }
+
+        if (errors.length === before) scenes.push(scene as FavorScene);
+    });
+    return scenes;
+}
+
+/**
+ * 解析章节
+ */
+function parseChapter(raw: any, path: string, errors: StorySchemaError[]): Chapter | null {
+    if (!isObject(raw)) {
+        errors.push({ path, message: '章节必须是对象' });
+        return null;
+    }
+
+    if (!isNonEmptyString(raw.id)) {
+        errors.push({ path: `${path}.id`, message: '必须是非空字符串' });
+        return null;
+    }
+
+    const chapterId: string = raw.id;
+    const push = (field: string, message: string) => {
+        errors.push({ chapterId, path: field, message });
+    };
+
+    if (!isNonEmptyString(raw.title)) push('title', '必须是非空字符串');
+    if (raw.titleKey !== undefined && !isNonEmptyString(raw.titleKey)) push('titleKey', '必须是非空字符串');
+    if (raw.description !== undefined && typeof raw.description !== 'string') push('description', '必须是字符串');
+    if (raw.bgm !== undefined && !isNonEmptyString(raw.bgm)) push('bgm', '必须是非空字符串');
+    if (raw.isEnding !== undefined && typeof raw.isEnding !== 'boolean') push('isEnding', '必须是布尔值');
+
+    let unlockCondition: Chapter['unlockCondition'];
+    if (raw.unlockCondition !== undefined && raw.unlockCondition !== null) {
+        if (!isObject(raw.unlockCondition) || !isNonEmptyString(raw.unlockCondition.type)) {
+            push('unlockCondition', '必须包含type字段');
+        } else {
+            checkConditions([raw.unlockCondition], 'unlockCondition', push);
+            unlockCondition = raw.unlockCondition;
+        }
+    }
+
+    if (raw.requiredFavor !== undefined && !isNumberRecord(raw.requiredFavor)) {
+        push('requiredFavor', '必须是 角色ID -> 数值 的映射');
+    }
+
+    if (!isObject(raw.nodes) || Object.keys(raw.nodes).length === 0) {
+        push('nodes', '必须是非空对象');
+        return null;
+    }
+
+    const nodes: Record<string, StoryNode> = {};
+    for (const [nodeId, rawNode] of Object.entries<any>(raw.nodes)) {
+        const node = parseNode(chapterId, nodeId, rawNode, errors);
+        if (node) {
+            nodes[nodeId] = node;
+        }
+    }
+
+    return {
+        id: chapterId,
+        title: raw.title,
+        titleKey: raw.titleKey || chapterTitleKey(chapterId),
+        description: raw.description || '',
+        unlockCondition,
+        bgm: raw.bgm,
+        requiredFavor: raw.requiredFavor,
+        isEnding: raw.isEnding,
+        nodes,
+    };
+}
+
+/**
+ * 解析节点（节点ID取自映射键）
+ */
+function parseNode(chapterId: string, nodeId: string, raw: any, errors: StorySchemaError[]): StoryNode | null {
+    const push = (path: string, message: string) => {
+        errors.push({ chapterId, nodeId, path, message });
+    };
+
+    if (!isObject(raw)) {
+        push('$', '节点必须是对象');
+        return null;
+    }
+
+    if (raw.id !== undefined && raw.id !== nodeId) {
+        push('id', `与节点键不一致: ${raw.id}`);
+    }
+
+    if (!NODE_TYPES.includes(raw.type)) {
+        push('type', `未知节点类型: ${raw.type}，可选值: ${NODE_TYPES.join('/')}`);
+        return null;
+    }
+
+    if (CONTENT_REQUIRED.includes(raw.type)) {
+        if (typeof raw.content !== 'string') push('content', '必须是字符串');
+    } else if (raw.content !== undefined && typeof raw.content !== 'string') {
+        push('content', '必须是字符串');
+    }
+
+    for (const field of ['speaker', 'background', 'voice', 'next', 'chapter', 'target', 'contentKey']) {
+        if (raw[field] !== undefined && !isNonEmptyString(raw[field])) {
+            push(field, '必须是非空字符串');
+        }
+    }
+
+    if (raw.character !== undefined) {
+        const character = raw.character;
+        if (!isObject(character)) {
+            push('character', '必须是对象');
+        } else {
+            if (!isNonEmptyString(character.id)) push('character.id', '必须是非空字符串');
+            if (!isNonEmptyString(character.pose)) push('character.pose', '必须是非空字符串');
+            if (!CHARACTER_POSITIONS.includes(character.position)) {
+                push('character.position', `必须是 ${CHARACTER_POSITIONS.join('/')} 之一`);
+            }
+        }
+    }
+
+    if (raw.characters !== undefined) {
+        if (!Array.isArray(raw.characters)) {
+            push('characters', '必须是数组');
+        } else {
+            raw.characters.forEach((direction: any, index: number) => {
+                checkStageDirection(direction, `characters[${index}]`, push);
+            });
+        }
+    }
+
+    if (raw.transition !== undefined) {
+        const transition = raw.transition;
+        if (!isObject(transition)) {
+            push('transition', '必须是对象');
+        } else {
+            if (transition.type !== undefined && !TRANSITION_TYPES.includes(transition.type)) {
+                push('transition.type', `未知转场: ${transition.type}，可选值: ${TRANSITION_TYPES.join('/')}`);
+            }
+            if (transition.duration !== undefined && !isNonNegativeNumber(transition.duration)) {
+                push('transition.duration', '必须是非负数');
+            }
+        }
+    }
+
+    for (const field of ['bgm', 'ambient']) {
+        if (raw[field] !== undefined) checkAudioCue(raw[field], field, push);
+    }
+
+    if (raw.sfx !== undefined && !isNonEmptyString(raw.sfx)
+        && !(Array.isArray(raw.sfx) && raw.sfx.length > 0 && raw.sfx.every(isNonEmptyString))) {
+        push('sfx', '必须是非空字符串或非空字符串数组');
+    }
+
+    if (raw.type === NodeType.CHOICE) {
+        if (!Array.isArray(raw.choices) || raw.choices.length === 0) {
+            push('choices', '选择节点必须包含非空选项列表');
+        }
+    } else if (raw.choices !== undefined) {
+        push('choices', `只有 ${NodeType.CHOICE} 节点可以包含选项`);
+    }
+
+    if (raw.type === NodeType.BRANCH) {
+        if (!Array.isArray(raw.branches) || raw.branches.length === 0) {
+            push('branches', '分支节点必须包含非空分支列表');
+        } else {
+            raw.branches.forEach((arm: any, index: number) => {
+                const path = `branches[${index}]`;
+                if (!isObject(arm)) {
+                    push(path, '分支必须是对象');
+                    return;
+                }
+                if (!Array.isArray(arm.conditions) || arm.conditions.length === 0) {
+                    push(`${path}.conditions`, '必须是非空数组');
+                }
+                if (!isNonEmptyString(arm.next)) push(`${path}.next`, '必须是非空字符串');
+                checkConditions(arm.conditions, `${path}.conditions`, push);
+            });
+        }
+        if (raw.next === undefined) push('next', '分支节点必须指定默认出口（无分支匹配时使用）');
+    } else if (raw.branches !== undefined) {
+        push('branches', `只有 ${NodeType.BRANCH} 节点可以包含分支`);
+    }
+
+    const choiceIds = new Set<string>();
+    if (Array.isArray(raw.choices)) {
+        raw.choices.forEach((choice: any, index: number) => {
+            const path = `choices[${index}]`;
+            checkChoice(choice, path, push);
+            if (isObject(choice) && isNonEmptyString(choice.id)) {
+                if (choiceIds.has(choice.id)) push(`${path}.id`, `选项ID重复: ${choice.id}`);
+                choiceIds.add(choice.id);
+            }
+        });
+    }
+
+    if (raw.type === NodeType.CALL) {
+        if (raw.target === undefined) push('target', '调用节点必须指定公共节点ID');
+    } else if (raw.target !== undefined) {
+        push('target', `只有 ${NodeType.CALL} 节点可以指定调用目标`);
+    }
+
+    if (raw.type === NodeType.RETURN && raw.next !== undefined) {
+        push('next', `${NodeType.RETURN} 节点返回调用处，不能指定 next`);
+    }
+
+    if (raw.type !== NodeType.CHOICE) {
+        for (const field of ['timeLimit', 'defaultChoiceId']) {
+            if (raw[field] !== undefined) push(field, `只有 ${NodeType.CHOICE} 节点可以限时`);
+        }
+    } else {
+        if (raw.timeLimit !== undefined && !(isNonNegativeNumber(raw.timeLimit) && raw.timeLimit > 0)) {
+            push('timeLimit', '必须是正数（秒）');
+        }
+        if (raw.defaultChoiceId !== undefined) {
+            if (!isNonEmptyString(raw.defaultChoiceId)) {
+                push('defaultChoiceId', '必须是非空字符串');
+            } else if (!choiceIds.has(raw.defaultChoiceId)) {
+                push('defaultChoiceId', `指向不存在的选项: ${raw.defaultChoiceId}`);
+            }
+        }
+    }
+
+    checkConditions(raw.conditions, 'conditions', push);
+    checkEffects(raw.effects, 'effects', push);
+
+    return {
+        ...raw,
+        id: nodeId,
+        content: raw.content ?? '',
+        contentKey: raw.contentKey || nodeContentKey(chapterId, nodeId),
+        choices: Array.isArray(raw.choices)
+            ? raw.choices.map((choice: any) => isObject(choice)
+                ? { ...choice, textKey: choice.textKey || choiceTextKey(chapterId, nodeId, choice.id) }
+                : choice)
+            : raw.choices,
+    } as StoryNode;
+}
+
+/**
+ * 校验选项
+ */
+function checkChoice(raw: any, path: string, push: (path: string, message: string) => void) {
+    if (!isObject(raw)) {
+        push(path, '选项必须是对象');
+        return;
+    }
+
+    if (!isNonEmptyString(raw.id)) push(`${path}.id`, '必须是非空字符串');
+    if (!isNonEmptyString(raw.text)) push(`${path}.text`, '必须是非空字符串');
+    if (raw.textKey !== undefined && !isNonEmptyString(raw.textKey)) push(`${path}.textKey`, '必须是非空字符串');
+    if (!isNonEmptyString(raw.next)) push(`${path}.next`, '必须是非空字符串');
+
+    if (raw.favorChange !== undefined && !isNumberRecord(raw.favorChange)) {
+        push(`${path}.favorChange`, '必须是 角色ID -> 数值 的映射');
+    }
+
+    checkConditions(raw.conditions, `${path}.conditions`, push);
+    checkEffects(raw.effects, `${path}.effects`, push);
+}
+
+/**
+ * 校验登场角色变化
+ */
+function checkStageDirection(raw: any, path: string, push: (path: string, message: string) => void) {
+    if (!isObject(raw)) {
+        push(path, '必须是对象');
+        return;
+    }
+
+    if (!isNonEmptyString(raw.id)) push(`${path}.id`, '必须是非空字符串');
+    if (raw.action !== undefined && !STAGE_ACTIONS.includes(raw.action)) {
+        push(`${path}.action`, `未知操作: ${raw.action}，可选值: ${STAGE_ACTIONS.join('/')}`);
+    }
+    if (raw.pose !== undefined && !isNonEmptyString(raw.pose)) push(`${path}.pose`, '必须是非空字符串');
+    if (raw.position !== undefined && !CHARACTER_POSITIONS.includes(raw.position)) {
+        push(`${path}.position`, `必须是 ${CHARACTER_POSITIONS.join('/')} 之一`);
+    }
+    if (raw.fade !== undefined && !isNonEmptyString(raw.fade)) push(`${path}.fade`, '必须是非空字符串');
+
+    if (raw.action === 'pose' && raw.pose === undefined) push(`${path}.pose`, 'pose 操作必须指定姿态');
+    if (raw.action === 'move' && raw.position === undefined) push(`${path}.position`, 'move 操作必须指定位置');
+}
+
+/**
+ * 校验音频指令
+ */
+function checkAudioCue(raw: any, path: string, push: (path: string, message: string) => void) {
+    if (isNonEmptyString(raw)) return;
+    if (!isObject(raw)) {
+        push(path, '必须是音频名或对象');
+        return;
+    }
+
+    if (raw.name !== undefined && !isNonEmptyString(raw.name)) push(`${path}.name`, '必须是非空字符串');
+    if (raw.fade !== undefined && typeof raw.fade !== 'boolean') push(`${path}.fade`, '必须是布尔值');
+    if (raw.stop !== undefined && typeof raw.stop !== 'boolean') push(`${path}.stop`, '必须是布尔值');
+    if (!raw.stop && raw.name === undefined) push(path, '必须指定 name 或 stop');
+}
+
+/**
+ * 校验条件列表
+ */
+function checkConditions(raw: any, path: string, push: (path: string, message: string) => void) {
+    if (raw === undefined) return;
+    if (!Array.isArray(raw)) {
+        push(path, '必须是数组');
+        return;
+    }
+
+    raw.forEach((condition: Condition, index: number) => {
+        const itemPath = `${path}[${index}]`;
+        if (!isObject(condition)) {
+            push(itemPath, '条件必须是对象');
+            return;
+        }
+        if (!CONDITION_TYPES.includes(condition.type)) {
+            push(`${itemPath}.type`, `未知条件类型: ${condition.type}，可选值: ${CONDITION_TYPES.join('/')}`);
+        }
+        if (condition.target !== undefined && typeof condition.target !== 'string') {
+            push(`${itemPath}.target`, '必须是字符串');
+        }
+        if (condition.op !== undefined && !COMPARE_OPS.includes(condition.op)) {
+            push(`${itemPath}.op`, `未知比较运算符: ${condition.op}，可选值: ${COMPARE_OPS.join('/')}`);
+        }
+
+        // 组合条件递归校验子条件
+        if (COMBINATOR_TYPES.includes(condition.type)) {
+            if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+                push(`${itemPath}.conditions`, '组合条件必须包含非空子条件列表');
+            } else {
+                checkConditions(condition.conditions, `${itemPath}.conditions`, push);
+            }
+        }
+    });
+}
+
+/**
+ * 校验效果列表
+ */
+function checkEffects(raw: any, path: string, push: (path: string, message: string) => void) {
+    if (raw === undefined) return;
+    if (!Array.isArray(raw)) {
+        push(path, '必须是数组');
+        return;
+    }
+
+    raw.forEach((effect: Effect, index: number) => {
+        const itemPath = `${path}[${index}]`;
+        if (!isObject(effect)) {
+            push(itemPath, '效果必须是对象');
+            return;
+        }
+        if (!EFFECT_TYPES.includes(effect.type)) {
+            push(`${itemPath}.type`, `未知效果类型: ${effect.type}，可选值: ${EFFECT_TYPES.join('/')}`);
+        }
+        if (!isNonEmptyString(effect.target)) {
+            push(`${itemPath}.target`, '必须是非空字符串');
+        }
+        if (effect.type === 'scene') {
+            if (!SCENE_EFFECT_TARGETS.includes(effect.target)) {
+                push(`${itemPath}.target`, `未知场景效果: ${effect.target}，可选值: ${SCENE_EFFECT_TARGETS.join('/')}`);
+            }
+            if (effect.value !== undefined && !isObject(effect.value)) {
+                push(`${itemPath}.value`, '场景效果参数必须是对象');
+            } else if (effect.value?.duration !== undefined && !isNonNegativeNumber(effect.value.duration)) {
+                push(`${itemPath}.value.duration`, '必须是非负数');
+            }
+        }
+        if (effect.type === 'item' && (!Number.isInteger(effect.value) || effect.value === 0)) {
+            push(`${itemPath}.value`, '道具数量必须是非零整数（负数为失去）');
+        }
+        if (effect.op !== undefined) {
+            if (effect.type !== 'var') {
+                push(`${itemPath}.op`, '只有 var 效果可以指定操作');
+            } else if (!VARIABLE_OPS.includes(effect.op)) {
+                push(`${itemPath}.op`, `未知变量操作: ${effect.op}，可选值: ${VARIABLE_OPS.join('/')}`);
+            }
+        }
+    });
+}
+
+// ==================== 工具方法 ====================
+
+function isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: any): boolean {
+    return typeof value === 'string' && value.length > 0;
+}
+
+function isNumberRecord(value: any): boolean {
+    return isObject(value) && Object.values(value).every(v => typeof v === 'number');
+}
+
+function isNonNegativeNumber(value: any): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
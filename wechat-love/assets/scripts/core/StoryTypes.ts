@@ -0,0 +1,155 @@
+/**
+ * 剧情数据类型 - StoryTypes
+ * 剧情配置（story.json）对应的数据结构，不依赖引擎，可在编辑器工具中直接使用
+ */
+
+// 剧情节点类型
+export enum NodeType {
+    DIALOG = 'dialog',       // 对话
+    NARRATION = 'narration', // 旁白
+    CHOICE = 'choice',       // 选择
+    BRANCH = 'branch',       // 条件分支
+    EVENT = 'event',         // 事件
+    END = 'end',            // 结束
+    CALL = 'call',           // 调用公共节点，返回后继续 next
+    RETURN = 'return',       // 公共节点：返回调用处
+}
+
+// 背景转场
+export type TransitionType = 'cut' | 'crossfade' | 'wipe' | 'fade_black';
+
+export interface SceneTransition {
+    type?: TransitionType;
+    duration?: number;       // 毫秒，缺省使用各转场的默认时长
+}
+
+// 音频指令：字符串为音频名；对象可关闭淡入淡出，或停止当前音频
+export type AudioCue = string | {
+    name?: string;
+    fade?: boolean;          // 缺省为 true
+    stop?: boolean;
+};
+
+// 剧情节点
+export interface StoryNode {
+    id: string;
+    type: NodeType;
+    speaker?: string;        // 说话者ID
+    content: string;         // 文本内容（原文）
+    contentKey?: string;     // 多语言键，缺省为 story.<章节ID>.<节点ID>
+    background?: string;     // 背景图
+    transition?: SceneTransition; // 背景转场，缺省为直接切换
+    voice?: string;          // 语音ID
+    bgm?: AudioCue;          // 切换/停止BGM，持续到下一次切换
+    ambient?: AudioCue;      // 切换/停止环境音，持续到下一次切换
+    sfx?: string | string[]; // 音效
+    character?: CharacterDisplay; // 角色显示（单个角色登场或更新，等同 characters 中的一项）
+    characters?: StageDirection[]; // 登场角色变化，未提及的角色保持在场
+    choices?: ChoiceData[];  // 选项列表
+    timeLimit?: number;      // 选择节点：限时（秒），超时自动选择默认选项
+    defaultChoiceId?: string;// 选择节点：超时选择的选项，缺省或不可用时为第一个可用选项
+    branches?: BranchArm[];  // 条件分支（按顺序匹配）
+    next?: string;           // 下一节点ID（分支节点：无分支匹配时的默认出口）
+    chapter?: string;        // 结束节点：下一章节ID
+    target?: string;         // 调用节点：公共节点ID
+    conditions?: Condition[];// 触发条件
+    effects?: Effect[];      // 节点效果
+}
+
+// 角色显示
+export interface CharacterDisplay {
+    id: string;
+    pose: string;            // 姿态
+    position: string;        // 位置 left/center/right
+    fade?: string;          // 淡入淡出
+}
+
+// 站位
+export type StagePosition = 'left' | 'center' | 'right';
+
+// 登场角色操作：登场、退场、换姿态、移动、置于最前
+export type StageAction = 'enter' | 'exit' | 'pose' | 'move' | 'front';
+
+// 登场角色变化
+export interface StageDirection {
+    id: string;
+    action?: StageAction;    // 缺省为 enter：不在场时登场，在场时更新姿态与位置
+    pose?: string;
+    position?: StagePosition;
+    fade?: string;           // 淡入淡出
+}
+
+// 选择数据
+export interface ChoiceData {
+    id: string;
+    text: string;
+    textKey?: string;        // 多语言键，缺省为 story.<章节ID>.<节点ID>.<选项ID>
+    next: string;
+    conditions?: Condition[];
+    effects?: Effect[];
+    favorChange?: Record<string, number>;
+}
+
+// 条件分支
+export interface BranchArm {
+    conditions: Condition[];
+    next: string;
+}
+
+// 条件类型
+export type ConditionType =
+    | 'flag' | 'chapter' | 'visited'                    // 剧情
+    | 'favor' | 'favor_level'                           // 角色
+    | 'item' | 'currency' | 'attribute' | 'play_time'   // 玩家
+    | 'var'                                             // 剧情变量
+    | 'all' | 'any' | 'not';                            // 组合
+
+// 比较运算符（数值类条件，默认 >=）
+export type CompareOp = '>=' | '<=' | '==';
+
+// 条件
+export interface Condition {
+    type: ConditionType;
+    target?: string;
+    op?: CompareOp;
+    value?: any;
+    conditions?: Condition[]; // 组合条件的子条件
+}
+
+// 变量操作（var效果，默认 set）
+export type VariableOp = 'set' | 'add' | 'sub' | 'toggle' | 'min' | 'max';
+
+// 效果
+export interface Effect {
+    type: 'favor' | 'flag' | 'item' | 'scene' | 'unlock' | 'attribute' | 'var';
+    target: string;
+    op?: VariableOp;
+    value: any;
+}
+
+// 章节数据
+export interface Chapter {
+    id: string;
+    title: string;
+    titleKey?: string;       // 多语言键，缺省为 story.<章节ID>.title
+    description: string;
+    unlockCondition?: Condition;
+    bgm?: string;
+    requiredFavor?: Record<string, number>;
+    isEnding?: boolean;      // 结局章节：不参与顺序推进，由结局判定进入
+    nodes: Record<string, StoryNode>;
+}
+
+// 好感场景：角色好感等级首次升到 level 时，在下一次推进前插入播放公共节点
+export interface FavorScene {
+    character: string;
+    level: number;
+    target: string;          // 公共节点ID，以 return 返回原剧情
+}
+
+// 剧情配置
+export interface StoryConfig {
+    chapters: Chapter[];
+    commonNodes?: Record<string, StoryNode>; // 公共节点：各章节通过 call 调用的共用场景，以 return 返回
+    favorScenes?: FavorScene[];
+}
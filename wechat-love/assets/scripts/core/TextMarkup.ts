@@ -0,0 +1,156 @@
+/**
+ * 文本标记 - TextMarkup
+ * 将剧情文本中的内联标记解析为文本片段与指令，供打字机逐字显示
+ * 不依赖引擎，可在编辑器工具中直接使用
+ *
+ * 支持的标记：
+ *   {player_name}、{var:x}   变量插值
+ *   [wait=500]               停顿（毫秒）
+ *   [speed=20] / [/speed]    修改 / 恢复打字速度（毫秒/字）
+ *   [pose=blush]             切换当前角色表情
+ *   [shake]                  震动
+ *   [color=#ff6699]...[/color] 文字颜色
+ * 无法识别的标记按原文显示
+ */
+
+// 标记片段
+export type MarkupToken =
+    | { type: 'text'; text: string }
+    | { type: 'wait'; ms: number }
+    | { type: 'speed'; ms: number | null }   // null 表示恢复默认速度
+    | { type: 'pose'; pose: string }
+    | { type: 'shake' }
+    | { type: 'color'; color: string | null }; // null 表示结束颜色
+
+// 解析结果
+export interface ParsedMarkup {
+    tokens: MarkupToken[];
+    plainText: string;       // 去除标记后的纯文本
+    length: number;          // 可见字符数
+}
+
+// 插值解析：返回 undefined 时保留原文
+export type InterpolationResolver = (key: string) => string | undefined;
+
+const TAG_PATTERN = /^\[(\/?)(\w+)(?:=([^\]]*))?\]/;
+const INTERPOLATION_PATTERN = /^\{([\w:.]+)\}/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{3,8}$|^[a-zA-Z]+$/;
+
+/**
+ * 解析带标记的文本
+ */
+export function parseMarkup(content: string, resolve?: InterpolationResolver): ParsedMarkup {
+    const tokens: MarkupToken[] = [];
+    let buffer = '';
+
+    const flush = () => {
+        if (buffer) {
+            tokens.push({ type: 'text', text: buffer });
+            buffer = '';
+        }
+    };
+
+    let i = 0;
+    while (i < content.length) {
+        const rest = content.slice(i);
+
+        if (rest[0] === '{') {
+            const match = INTERPOLATION_PATTERN.exec(rest);
+            const value = match && resolve ? resolve(match[1]) : undefined;
+            if (match && value !== undefined) {
+                buffer += value;
+                i += match[0].length;
+                continue;
+            }
+        }
+
+        if (rest[0] === '[') {
+            const match = TAG_PATTERN.exec(rest);
+            const token = match ? parseTag(match[1] === '/', match[2], match[3]) : null;
+            if (match && token) {
+                flush();
+                tokens.push(token);
+                i += match[0].length;
+                continue;
+            }
+        }
+
+        buffer += content[i];
+        i++;
+    }
+    flush();
+
+    const plainText = tokens.map(t => (t.type === 'text' ? t.text : '')).join('');
+    return { tokens, plainText, length: Array.from(plainText).length };
+}
+
+/**
+ * 解析单个标记
+ */
+function parseTag(closing: boolean, name: string, value: string | undefined): MarkupToken | null {
+    if (closing) {
+        if (name === 'color') return { type: 'color', color: null };
+        if (name === 'speed') return { type: 'speed', ms: null };
+        return null;
+    }
+
+    switch (name) {
+        case 'wait': {
+            const ms = Number(value);
+            return Number.isFinite(ms) && ms >= 0 ? { type: 'wait', ms } : null;
+        }
+        case 'speed': {
+            const ms = Number(value);
+            return Number.isFinite(ms) && ms >= 0 ? { type: 'speed', ms } : null;
+        }
+        case 'pose':
+            return value ? { type: 'pose', pose: value } : null;
+        case 'shake':
+            return value === undefined ? { type: 'shake' } : null;
+        case 'color':
+            return value && COLOR_PATTERN.test(value) ? { type: 'color', color: value } : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * 生成RichText字符串，只包含前 visibleChars 个可见字符，颜色标签始终成对闭合
+ */
+export function renderMarkup(tokens: MarkupToken[], visibleChars: number = Infinity): string {
+    let result = '';
+    let remaining = visibleChars;
+    let colorOpen = false;
+
+    for (const token of tokens) {
+        if (remaining <= 0) break;
+
+        if (token.type === 'text') {
+            const chars = Array.from(token.text);
+            result += chars.slice(0, remaining).join('');
+            remaining -= chars.length;
+        } else if (token.type === 'color') {
+            if (colorOpen) {
+                result += '</color>';
+                colorOpen = false;
+            }
+            if (token.color) {
+                result += `<color=${token.color}>`;
+                colorOpen = true;
+            }
+        }
+    }
+
+    if (colorOpen) {
+        result += '</color>';
+    }
+
+    return result;
+}
+
+/**
+ * 片段中的可见字符数
+ */
+export function tokenLength(token: MarkupToken): number {
+    return token.type === 'text' ? Array.from(token.text).length : 0;
+}
@@ -116,11 +116,13 @@ export class UIManager extends EventEmitter {
     private registerDefaultUIs() {
         const defaultUIs: UIConfig[] = [
             { name: 'MainMenu', prefab: 'prefabs/ui/MainMenu', layer: UILayer.MENU },
+            { name: 'NameEntry', prefab: 'prefabs/ui/NameEntry', layer: UILayer.MENU, modal: true },
             { name: 'DialogBox', prefab: 'prefabs/ui/DialogBox', layer: UILayer.DIALOG },
             { name: 'ChoicePanel', prefab: 'prefabs/ui/ChoicePanel', layer: UILayer.DIALOG },
             { name: 'Settings', prefab: 'prefabs/ui/Settings', layer: UILayer.MENU, modal: true },
             { name: 'SaveLoad', prefab: 'prefabs/ui/SaveLoad', layer: UILayer.MENU, modal: true },
             { name: 'Gallery', prefab: 'prefabs/ui/Gallery', layer: UILayer.MENU },
+            { name: 'Credits', prefab: 'prefabs/ui/Credits', layer: UILayer.MENU },
             { name: 'Inventory', prefab: 'prefabs/ui/Inventory', layer: UILayer.MENU },
             { name: 'CharacterPanel', prefab: 'prefabs/ui/CharacterPanel', layer: UILayer.MENU },
             { name: 'PauseMenu', prefab: 'prefabs/ui/PauseMenu', layer: UILayer.POPUP, modal: true },
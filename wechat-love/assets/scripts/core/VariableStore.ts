@@ -0,0 +1,248 @@
+/**
+ * 剧情变量 - VariableStore
+ * 负责数值/字符串/布尔类型的剧情变量（计数器、枚举、自由文本等），与FlagManager的布尔标志位互补
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { VariableOp } from './StoryTypes';
+
+export type VariableType = 'number' | 'string' | 'boolean';
+export type VariableValue = number | string | boolean;
+
+// 变量定义
+export interface VariableDefinition {
+    key: string;
+    type: VariableType;
+    defaultValue: VariableValue;
+    description: string;
+    // 数值范围
+    min?: number;
+    max?: number;
+    // 枚举可选值（字符串）
+    options?: string[];
+}
+
+// 预定义变量
+const VARIABLE_DEFINITIONS: VariableDefinition[] = [
+    // 计数器
+    { key: 'late_count', type: 'number', defaultValue: 0, description: '迟到次数', min: 0 },
+    { key: 'library_visits', type: 'number', defaultValue: 0, description: '去图书馆的次数', min: 0 },
+
+    // 枚举
+    { key: 'club', type: 'string', defaultValue: 'none', description: '加入的社团', options: ['none', 'basketball', 'literature', 'student_council'] },
+
+    // 自由文本
+    { key: 'nickname', type: 'string', defaultValue: '', description: '女主角对主角的称呼' },
+
+    // 布尔
+    { key: 'confessed', type: 'boolean', defaultValue: false, description: '是否已经告白' },
+];
+
+export class VariableStore extends EventEmitter {
+    private static _instance: VariableStore;
+    public static get instance(): VariableStore {
+        if (!VariableStore._instance) {
+            VariableStore._instance = new VariableStore();
+        }
+        return VariableStore._instance;
+    }
+
+    // 变量存储
+    private _values: Map<string, VariableValue> = new Map();
+
+    // 定义缓存
+    private _definitions: Map<string, VariableDefinition> = new Map();
+
+    private constructor() {
+        super();
+
+        for (const def of VARIABLE_DEFINITIONS) {
+            this._definitions.set(def.key, def);
+            this._values.set(def.key, def.defaultValue);
+        }
+    }
+
+    /**
+     * 初始化
+     */
+    init() {
+        console.log('[VariableStore] 初始化完成');
+    }
+
+    // ==================== 基础操作 ====================
+
+    /**
+     * 获取变量
+     */
+    get(key: string): VariableValue | undefined {
+        return this._values.get(key);
+    }
+
+    /**
+     * 获取数值变量
+     */
+    getNumber(key: string): number {
+        const value = this._values.get(key);
+        return typeof value === 'number' ? value : 0;
+    }
+
+    /**
+     * 获取字符串变量
+     */
+    getString(key: string): string {
+        const value = this._values.get(key);
+        return value === undefined ? '' : String(value);
+    }
+
+    /**
+     * 设置变量（类型不符时忽略）
+     */
+    set(key: string, value: VariableValue): boolean {
+        const def = this._definitions.get(key);
+        if (!def) {
+            console.warn(`[VariableStore] 未定义的变量: ${key}`);
+            return false;
+        }
+
+        if (typeof value !== def.type) {
+            console.warn(`[VariableStore] 类型不符: ${key} 需要 ${def.type}，实际为 ${typeof value}`);
+            return false;
+        }
+
+        if (def.options && !def.options.includes(value as string)) {
+            console.warn(`[VariableStore] ${key} 不支持的取值: ${value}，可选值: ${def.options.join('/')}`);
+            return false;
+        }
+
+        if (def.type === 'number') {
+            value = this.clamp(def, value as number);
+        }
+
+        const oldValue = this._values.get(key);
+        if (oldValue === value) return true;
+
+        this._values.set(key, value);
+
+        console.log(`[VariableStore] ${key}: ${oldValue} -> ${value}`);
+        this.emit('variableChanged', { key, oldValue, newValue: value });
+        return true;
+    }
+
+    /**
+     * 执行变量操作
+     */
+    apply(key: string, op: VariableOp, value?: VariableValue): boolean {
+        const def = this._definitions.get(key);
+        if (!def) {
+            console.warn(`[VariableStore] 未定义的变量: ${key}`);
+            return false;
+        }
+
+        const current = this._values.get(key);
+
+        switch (op) {
+            case 'set':
+                return this.set(key, value!);
+
+            case 'toggle':
+                if (def.type !== 'boolean') break;
+                return this.set(key, !current);
+
+            case 'add':
+            case 'sub':
+            case 'min':
+            case 'max': {
+                if (def.type !== 'number' || typeof value !== 'number') break;
+                const num = current as number;
+                const result = op === 'add' ? num + value
+                    : op === 'sub' ? num - value
+                    : op === 'min' ? Math.min(num, value)
+                    : Math.max(num, value);
+                return this.set(key, result);
+            }
+        }
+
+        console.warn(`[VariableStore] 操作 ${op} 不适用于 ${def.type} 变量: ${key}`);
+        return false;
+    }
+
+    private clamp(def: VariableDefinition, value: number): number {
+        if (def.min !== undefined) value = Math.max(def.min, value);
+        if (def.max !== undefined) value = Math.min(def.max, value);
+        return value;
+    }
+
+    // ==================== 定义 ====================
+
+    /**
+     * 获取变量定义
+     */
+    getDefinition(key: string): VariableDefinition | undefined {
+        return this._definitions.get(key);
+    }
+
+    /**
+     * 获取所有定义
+     */
+    getAllDefinitions(): VariableDefinition[] {
+        return Array.from(this._definitions.values());
+    }
+
+    /**
+     * 添加自定义变量
+     */
+    define(def: VariableDefinition): void {
+        if (this._definitions.has(def.key)) {
+            console.warn(`[VariableStore] 变量已存在: ${def.key}`);
+            return;
+        }
+
+        this._definitions.set(def.key, def);
+        this._values.set(def.key, def.defaultValue);
+
+        console.log(`[VariableStore] 添加变量: ${def.key}`);
+    }
+
+    // ==================== 存档相关 ====================
+
+    /**
+     * 导出变量数据（只导出非默认值）
+     */
+    exportData(): Record<string, VariableValue> {
+        const data: Record<string, VariableValue> = {};
+
+        for (const [key, value] of this._values) {
+            const def = this._definitions.get(key);
+            if (def && value !== def.defaultValue) {
+                data[key] = value;
+            }
+        }
+
+        return data;
+    }
+
+    /**
+     * 导入变量数据
+     */
+    importData(data: Record<string, VariableValue>): void {
+        this.reset();
+
+        for (const [key, value] of Object.entries(data || {})) {
+            this.set(key, value);
+        }
+    }
+
+    /**
+     * 重置所有变量
+     */
+    reset(): void {
+        for (const [key, def] of this._definitions) {
+            this._values.set(key, def.defaultValue);
+        }
+
+        console.log('[VariableStore] 已重置所有变量');
+        this.emit('reset');
+    }
+}
+
+export const Variables = VariableStore.instance;
@@ -5,16 +5,33 @@
 
 export * from './EventEmitter';
 export * from './GameStateMachine';
+export * from './StoryTypes';
+export * from './StorySchema';
+export * from './TextMarkup';
 export * from './DialogSystem';
 export * from './CharacterSystem';
+export * from './PlayerManager';
+export * from './ConditionEvaluator';
 export * from './SaveLoadSystem';
 export * from './StoryManager';
+export * from './SceneEffects';
+export * from './StageManager';
+export * from './RandomService';
+export * from './EndingResolver';
+export * from './GalleryManager';
+export * from './StateSnapshot';
+export * from './BacklogSystem';
+export * from './RollbackSystem';
+export * from './FlowchartSystem';
 export * from './AudioManager';
 export * from './FlagManager';
+export * from './VariableStore';
 export * from './ResourceManager';
 export * from './UIManager';
 export * from './InventorySystem';
 export * from './AchievementSystem';
 export * from './WechatAdapter';
 export * from './SettingsManager';
+export * from './GlobalProgressManager';
+export * from './I18nManager';
 export * from './GameManager';
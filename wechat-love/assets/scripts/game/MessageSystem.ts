@@ -3,8 +3,10 @@
  * 模拟微信/短信聊天界面，用于与角色互动
  */
 
-import { EventEmitter } from './EventEmitter';
-import { CharacterSystem } from './CharacterSystem';
+import { EventEmitter } from '../core/EventEmitter';
+import { CharacterSystem, FavorLevelChange } from '../core/CharacterSystem';
+import { Random, RandomStream } from '../core/RandomService';
+import { StoryManager } from '../core/StoryManager';
 
 // 消息类型
 export enum MessageType {
@@ -47,7 +49,7 @@ export interface ChatTrigger {
     id: string;
     characterId: string;
     type: 'time' | 'event' | 'choice' | 'favor';
-    condition: string;      // 条件表达式
+    condition: string;      // 条件表达式（favor 类型为达到的好感等级）
     messages: ChatMessage[]; // 触发消息
     requiredFavor?: number; // 好感要求
     oneTime?: boolean;      // 是否一次性触发
@@ -158,6 +160,44 @@ const CHAT_TRIGGERS: ChatTrigger[] = [
             },
         ],
     },
+    // 苏小晚 - 好感等级升到熟人
+    {
+        id: 'trigger_xiaowan_level_3',
+        characterId: 'heroine_2',
+        type: 'favor',
+        condition: '3',
+        oneTime: true,
+        messages: [
+            {
+                id: 'msg_xw_lv3_1',
+                type: MessageType.TEXT,
+                direction: MessageDirection.INCOMING,
+                senderId: 'heroine_2',
+                content: '最近和你一起打球好开心！周末还来吗？',
+                timestamp: 0,
+                read: false,
+            },
+        ],
+    },
+    // 沈墨寒 - 好感等级升到熟人
+    {
+        id: 'trigger_mohan_level_3',
+        characterId: 'heroine_3',
+        type: 'favor',
+        condition: '3',
+        oneTime: true,
+        messages: [
+            {
+                id: 'msg_mh_lv3_1',
+                type: MessageType.TEXT,
+                direction: MessageDirection.INCOMING,
+                senderId: 'heroine_3',
+                content: '画室的钥匙...明天可以借你。',
+                timestamp: 0,
+                read: false,
+            },
+        ],
+    },
     // 日常问候 - 好感>=100
     {
         id: 'trigger_daily_greeting',
@@ -241,6 +281,12 @@ export class MessageSystem extends EventEmitter {
                 unreadCount: 0,
             });
         }
+
+        // 好感等级提升时检查好感触发（回想中的好感变化不计入）
+        CharacterSystem.instance.on('favorLevelUp', ({ characterId, newLevel }: FavorLevelChange) => {
+            if (StoryManager.instance.isPlayingScene()) return;
+            this.checkFavorTriggers(characterId, newLevel);
+        });
         
         console.log('[MessageSystem] 初始化完成');
     }
@@ -368,12 +414,28 @@ export class MessageSystem extends EventEmitter {
         }
     }
 
+    /**
+     * 检查好感等级触发条件
+     */
+    checkFavorTriggers(characterId: string, level: number): void {
+        const triggers = this._triggers.filter(t => 
+            t.type === 'favor' && 
+            t.characterId === characterId && 
+            Number(t.condition) <= level && 
+            !t.triggered
+        );
+
+        for (const trigger of triggers) {
+            this.triggerChat(trigger.id);
+        }
+    }
+
     /**
      * 安排回复（延迟发送）
      */
     private scheduleReply(characterId: string): void {
         // 随机延迟1-3秒后回复
-        const delay = 1000 + Math.random() * 2000;
+        const delay = Random.range(RandomStream.CHAT, 1000, 3000);
         
         setTimeout(() => {
             this.sendAutoReply(characterId);
@@ -393,7 +455,7 @@ export class MessageSystem extends EventEmitter {
             '加油哦 💪',
         ];
 
-        const replyText = replies[Math.floor(Math.random() * replies.length)];
+        const replyText = Random.pick(RandomStream.CHAT, replies)!;
         
         const message: ChatMessage = {
             id: `msg_auto_${Date.now()}`,
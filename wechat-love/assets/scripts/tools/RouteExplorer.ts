@@ -0,0 +1,411 @@
+/**
+ * 路线探索 - RouteExplorer
+ * 蒙特卡洛抽样多次通关（剧情选项 + 章节间的送礼、约会、聊天），统计各角色好感度分布、各结局达成率、
+ * 无法达成的结局与主导策略，供调整 numbers.json 前参考
+ * 不依赖引擎，通关由命令行（scripts/explore-routes.ts）驱动，这里负责活动模型、活动策略与统计
+ */
+
+import { ChoicePolicy } from './StoryScenario';
+
+export type ActivityKind = 'gift' | 'date' | 'chat';
+
+// 章节间活动
+export interface Activity {
+    kind: ActivityKind;
+    id: string;                      // 礼物/约会/快速回复ID
+    characterId: string;
+    cost: number;                    // 花费金币
+    requiredFavor: number;           // 最低好感要求
+    favorRange: [number, number];    // 好感变化范围（含两端）
+}
+
+type Range = { min: number; max: number };
+
+// 数值配置中用到的部分（numbers.json）
+export interface BalanceConfig {
+    gameBalance: {
+        favor: {
+            levelThresholds: number[];
+            levelNames: string[];
+            changeRates: Record<string, Range>;
+        };
+    };
+    items: {
+        gifts: Array<{ id: string; price: number; favorRange: [number, number]; suitableFor: string[] }>;
+    };
+    dates: Record<string, { id: string; cost: number; requiredFavor: number; events: Array<{ favorRange: [number, number] }> }>;
+    rewards?: { story?: { chapter_complete?: { type: string; amount?: number } } };
+}
+
+// 快速回复（来自MessageSystem）
+export interface ReplyOption {
+    id: string;
+    favorChange: number;
+}
+
+// 抽样策略
+export interface ExplorerStrategy {
+    id: string;
+    name: string;
+    policy: ChoicePolicy;            // 剧情选项
+    focus?: string;                  // 只为该角色安排期望好感最高的活动，缺省时随机安排
+}
+
+// 单次通关
+export interface ExplorerRun {
+    strategy: string;
+    ending: string | null;
+    favor: Record<string, number>;
+    choices: string[];
+    activities: string[];            // 活动标识，见 activityLabel
+    error?: string;
+}
+
+// 结局（来自characters.json）
+export interface EndingInfo {
+    id: string;
+    characterId: string;
+    name?: string;
+    requiredFavor?: number;          // 好感度条件，用于说明无法达成的原因
+}
+
+export interface ExplorerContext {
+    characterIds: string[];
+    endings: EndingInfo[];
+    strategies: ExplorerStrategy[];
+    levelThresholds: number[];
+    levelNames: string[];
+    activitiesPerChapter: number;
+    seed: number;
+}
+
+// 好感度分布
+export interface FavorDistribution {
+    characterId: string;
+    min: number;
+    p25: number;
+    median: number;
+    p75: number;
+    max: number;
+    mean: number;
+    levels: number[];                // 各好感等级的占比，与 levelNames 对应
+}
+
+// 结局达成率（0-1）
+export interface EndingStats extends EndingInfo {
+    share: number;
+    byStrategy: Record<string, number>;
+    maxFavor: number;                // 所有抽样中该角色的最高好感度
+}
+
+// 策略结果
+export interface StrategyStats {
+    id: string;
+    name: string;
+    runs: number;
+    errors: number;
+    noEnding: number;                // 没有达成结局的占比
+    meanFavor: Record<string, number>;
+}
+
+// 结局的主导策略与关键选择
+export interface DominantStrategy {
+    ending: string;
+    strategy: string;
+    share: number;
+    runnerUp?: { strategy: string; share: number };
+    keyMoves: Array<{ move: string; rate: number; baseline: number }>;  // 达成该结局的通关中出现率明显高于整体的选项/活动
+}
+
+export interface ExplorerReport {
+    runs: number;
+    errors: number;
+    seed: number;
+    activitiesPerChapter: number;
+    levelNames: string[];
+    levelThresholds: number[];
+    favor: FavorDistribution[];
+    endings: EndingStats[];
+    noEnding: number;
+    unreachable: string[];
+    strategies: StrategyStats[];
+    dominant: DominantStrategy[];
+}
+
+// 关键选择：出现率至少高出整体这么多才列出
+const KEY_MOVE_LIFT = 0.15;
+const KEY_MOVE_LIMIT = 3;
+
+// ==================== 活动 ====================
+
+/**
+ * 由数值配置与快速回复构建章节间可进行的活动
+ * 礼物只送给适合的角色；约会好感取各约会事件的范围，没有事件时取 date_normal
+ */
+export function buildActivities(balance: BalanceConfig, replies: Record<string, ReplyOption[]>, characterIds: string[]): Activity[] {
+    const activities: Activity[] = [];
+    const dateNormal = balance.gameBalance.favor.changeRates.date_normal;
+
+    for (const gift of balance.items.gifts) {
+        for (const characterId of gift.suitableFor.filter(id => characterIds.includes(id))) {
+            activities.push({
+                kind: 'gift', id: gift.id, characterId,
+                cost: gift.price, requiredFavor: 0, favorRange: gift.favorRange,
+            });
+        }
+    }
+
+    for (const date of Object.values(balance.dates)) {
+        const favorRange: [number, number] = date.events.length > 0
+            ? [Math.min(...date.events.map(e => e.favorRange[0])), Math.max(...date.events.map(e => e.favorRange[1]))]
+            : [dateNormal.min, dateNormal.max];
+
+        for (const characterId of characterIds) {
+            activities.push({
+                kind: 'date', id: date.id, characterId,
+                cost: date.cost, requiredFavor: date.requiredFavor, favorRange,
+            });
+        }
+    }
+
+    for (const characterId of characterIds) {
+        for (const reply of replies[characterId] || []) {
+            activities.push({
+                kind: 'chat', id: reply.id, characterId,
+                cost: 0, requiredFavor: 0, favorRange: [reply.favorChange, reply.favorChange],
+            });
+        }
+    }
+
+    return activities;
+}
+
+/**
+ * 按策略选择一项活动，金币或好感度不满足时跳过该活动；没有可进行的活动时为空
+ */
+export function pickActivity(
+    strategy: ExplorerStrategy,
+    activities: Activity[],
+    state: { favor: Record<string, number>; currency: number },
+    random: () => number
+): Activity | undefined {
+    const available = activities.filter(a => a.cost <= state.currency
+        && (state.favor[a.characterId] ?? 0) >= a.requiredFavor
+        && (!strategy.focus || a.characterId === strategy.focus));
+
+    if (!strategy.focus) {
+        return available[Math.floor(random() * available.length)];
+    }
+
+    let best: Activity | undefined;
+    for (const activity of available) {
+        if (!best || averageFavor(activity) > averageFavor(best)) {
+            best = activity;
+        }
+    }
+    return best;
+}
+
+/**
+ * 活动的好感变化（范围内均匀取整）
+ */
+export function rollFavor(activity: Activity, random: () => number): number {
+    const [min, max] = activity.favorRange;
+    return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * 活动标识，如 gift:gift_book@heroine_3
+ */
+export function activityLabel(activity: Activity): string {
+    return `${activity.kind}:${activity.id}@${activity.characterId}`;
+}
+
+function averageFavor(activity: Activity): number {
+    return (activity.favorRange[0] + activity.favorRange[1]) / 2;
+}
+
+// ==================== 统计 ====================
+
+/**
+ * 汇总抽样结果
+ */
+export function summarizeRuns(runs: ExplorerRun[], context: ExplorerContext): ExplorerReport {
+    const { characterIds, levelThresholds } = context;
+
+    const favor = characterIds.map(characterId => {
+        const values = runs.map(run => run.favor[characterId] ?? 0).sort((a, b) => a - b);
+        const levels = levelThresholds.map((threshold, index) => {
+            const next = levelThresholds[index + 1] ?? Infinity;
+            return share(values.filter(v => v >= threshold && v < next).length, values.length);
+        });
+        return {
+            characterId,
+            min: values[0] ?? 0,
+            p25: percentile(values, 0.25),
+            median: percentile(values, 0.5),
+            p75: percentile(values, 0.75),
+            max: values[values.length - 1] ?? 0,
+            mean: round(values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length)),
+            levels,
+        };
+    });
+
+    const byStrategy = new Map(context.strategies.map(s => [s.id, runs.filter(r => r.strategy === s.id)]));
+
+    const endings = context.endings.map(ending => ({
+        ...ending,
+        share: share(runs.filter(r => r.ending === ending.id).length, runs.length),
+        byStrategy: Object.fromEntries(context.strategies.map(s => {
+            const group = byStrategy.get(s.id)!;
+            return [s.id, share(group.filter(r => r.ending === ending.id).length, group.length)];
+        })),
+        maxFavor: Math.max(0, ...runs.map(r => r.favor[ending.characterId] ?? 0)),
+    }));
+
+    const strategies = context.strategies.map(strategy => {
+        const group = byStrategy.get(strategy.id)!;
+        return {
+            id: strategy.id,
+            name: strategy.name,
+            runs: group.length,
+            errors: group.filter(r => r.error).length,
+            noEnding: share(group.filter(r => !r.ending).length, group.length),
+            meanFavor: Object.fromEntries(characterIds.map(id => [
+                id, round(group.reduce((sum, r) => sum + (r.favor[id] ?? 0), 0) / Math.max(1, group.length)),
+            ])),
+        };
+    });
+
+    return {
+        runs: runs.length,
+        errors: runs.filter(r => r.error).length,
+        seed: context.seed,
+        activitiesPerChapter: context.activitiesPerChapter,
+        levelNames: context.levelNames,
+        levelThresholds,
+        favor,
+        endings,
+        noEnding: share(runs.filter(r => !r.ending).length, runs.length),
+        unreachable: endings.filter(e => e.share === 0).map(e => e.id),
+        strategies,
+        dominant: endings.filter(e => e.share > 0).map(e => findDominant(e, runs)),
+    };
+}
+
+/**
+ * 结局的主导策略（达成率最高）与关键选择
+ */
+function findDominant(ending: EndingStats, runs: ExplorerRun[]): DominantStrategy {
+    const ranked = Object.entries(ending.byStrategy).sort((a, b) => b[1] - a[1]);
+    const [strategy, best] = ranked[0];
+
+    const moveSet = (run: ExplorerRun) => new Set([...run.choices, ...run.activities]);
+    const reached = runs.filter(r => r.ending === ending.id).map(moveSet);
+    const all = runs.map(moveSet);
+
+    const moves = new Set(reached.flatMap(set => Array.from(set)));
+    const keyMoves = Array.from(moves)
+        .map(move => ({
+            move,
+            rate: share(reached.filter(set => set.has(move)).length, reached.length),
+            baseline: share(all.filter(set => set.has(move)).length, all.length),
+        }))
+        .filter(m => m.rate - m.baseline >= KEY_MOVE_LIFT)
+        .sort((a, b) => (b.rate - b.baseline) - (a.rate - a.baseline))
+        .slice(0, KEY_MOVE_LIMIT);
+
+    const dominant: DominantStrategy = { ending: ending.id, strategy, share: best, keyMoves };
+    if (ranked[1]) {
+        dominant.runnerUp = { strategy: ranked[1][0], share: ranked[1][1] };
+    }
+    return dominant;
+}
+
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function share(count: number, total: number): number {
+    return total > 0 ? round(count / total, 4) : 0;
+}
+
+function round(value: number, digits: number = 1): number {
+    const scale = Math.pow(10, digits);
+    return Math.round(value * scale) / scale;
+}
+
+// ==================== 报告 ====================
+
+/**
+ * 格式化为Markdown报告
+ */
+export function formatExplorerMarkdown(report: ExplorerReport): string {
+    const percent = (value: number) => `${round(value * 100)}%`;
+    const strategyIds = report.strategies.map(s => s.id);
+    const strategyName = (id: string) => report.strategies.find(s => s.id === id)?.name || id;
+    const lines: string[] = [];
+
+    lines.push('# 路线探索报告', '');
+    lines.push(`- 抽样: ${report.runs} 次通关（${report.strategies.map(s => `${s.name} ${s.runs}`).join('，')}），种子 ${report.seed}`);
+    lines.push(`- 章节间活动: 每章 ${report.activitiesPerChapter} 次（送礼、约会、聊天），好感变化与花费来自 numbers.json`);
+    if (report.errors > 0) {
+        lines.push(`- ⚠️ 运行出错: ${report.errors} 次，出错的通关按没有结局统计`);
+    }
+
+    lines.push('', '## 好感度分布', '');
+    lines.push('| 角色 | 最小 | P25 | 中位数 | P75 | 最大 | 平均 |');
+    lines.push('| --- | ---: | ---: | ---: | ---: | ---: | ---: |');
+    for (const f of report.favor) {
+        lines.push(`| ${f.characterId} | ${f.min} | ${f.p25} | ${f.median} | ${f.p75} | ${f.max} | ${f.mean} |`);
+    }
+
+    lines.push('', '### 好感等级', '');
+    lines.push(`| 角色 | ${report.levelNames.map((name, i) => `${name} (${report.levelThresholds[i]})`).join(' | ')} |`);
+    lines.push(`| --- |${' ---: |'.repeat(report.levelNames.length)}`);
+    for (const f of report.favor) {
+        lines.push(`| ${f.characterId} | ${f.levels.map(percent).join(' | ')} |`);
+    }
+
+    lines.push('', '## 结局达成率', '');
+    lines.push(`| 结局 | 角色 | 全部 | ${strategyIds.map(strategyName).join(' | ')} |`);
+    lines.push(`| --- | --- | ---: |${' ---: |'.repeat(strategyIds.length)}`);
+    for (const e of report.endings) {
+        lines.push(`| ${e.id} | ${e.characterId} | ${percent(e.share)} | ${strategyIds.map(id => percent(e.byStrategy[id])).join(' | ')} |`);
+    }
+    lines.push(`| （无结局） | - | ${percent(report.noEnding)} | ${report.strategies.map(s => percent(s.noEnding)).join(' | ')} |`);
+
+    lines.push('', '## 无法达成的结局', '');
+    if (report.unreachable.length === 0) {
+        lines.push('无');
+    }
+    for (const id of report.unreachable) {
+        const e = report.endings.find(x => x.id === id)!;
+        const required = e.requiredFavor !== undefined ? `，需要 ${e.requiredFavor}` : '';
+        lines.push(`- ${id}${e.name ? `（${e.name}）` : ''}: ${e.characterId} 最高好感 ${e.maxFavor}${required}`);
+    }
+
+    lines.push('', '## 主导策略', '');
+    if (report.dominant.length === 0) {
+        lines.push('无');
+    }
+    for (const d of report.dominant) {
+        const runnerUp = !d.runnerUp ? ''
+            : d.runnerUp.share === d.share ? `，与 ${strategyName(d.runnerUp.strategy)} 等策略持平`
+            : `，其次 ${strategyName(d.runnerUp.strategy)} ${percent(d.runnerUp.share)}`;
+        lines.push(`- **${d.ending}**: ${strategyName(d.strategy)} ${percent(d.share)}${runnerUp}`);
+        for (const m of d.keyMoves) {
+            lines.push(`  - ${m.move}: ${percent(m.rate)}（整体 ${percent(m.baseline)}）`);
+        }
+    }
+
+    lines.push('', '## 各策略平均好感', '');
+    lines.push(`| 策略 | ${report.favor.map(f => f.characterId).join(' | ')} |`);
+    lines.push(`| --- |${' ---: |'.repeat(report.favor.length)}`);
+    for (const s of report.strategies) {
+        lines.push(`| ${s.name} | ${report.favor.map(f => s.meanFavor[f.characterId]).join(' | ')} |`);
+    }
+
+    return lines.join('\n') + '\n';
+}
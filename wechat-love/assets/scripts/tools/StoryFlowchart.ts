@@ -0,0 +1,141 @@
+/**
+ * 剧情流程图 - StoryFlowchart
+ * 将章节的节点图折叠为可读的区块：连续的顺序节点合为一块，在选项、条件分支、结束节点与汇合处断开
+ * 不依赖引擎，运行时的已读/当前状态与跳转由 FlowchartSystem 提供
+ */
+
+import { NodeType, StoryNode, Chapter } from '../core/StoryTypes';
+
+// 区块类型（由区块最后一个节点决定）
+export type FlowchartBlockKind = 'scene' | 'choice' | 'branch' | 'end';
+
+// 区块
+export interface FlowchartBlock {
+    id: string;              // 首节点ID
+    kind: FlowchartBlockKind;
+    nodes: string[];         // 按播放顺序
+    summaryNode?: string;    // 代表区块内容的节点（首个有文本的节点）
+    nextChapter?: string;    // 结束节点：下一章节ID
+}
+
+// 区块之间的连线
+export interface FlowchartEdge {
+    from: string;            // 区块ID
+    to: string;              // 区块ID
+    choiceId?: string;       // 选项出口
+    branchIndex?: number;    // 条件分支出口，默认出口为空
+}
+
+// 章节流程图
+export interface FlowchartGraph {
+    chapterId: string;
+    blocks: FlowchartBlock[];  // 按首节点在章节中的顺序
+    edges: FlowchartEdge[];
+}
+
+/**
+ * 构建章节流程图
+ */
+export function buildFlowchart(chapter: Chapter): FlowchartGraph {
+    const nodeIds = Object.keys(chapter.nodes);
+
+    // 入度：有多个入口的节点是汇合处，需要单独成块
+    const incoming = new Map<string, number>();
+    for (const node of Object.values(chapter.nodes)) {
+        for (const target of getExits(node)) {
+            incoming.set(target, (incoming.get(target) || 0) + 1);
+        }
+    }
+
+    const isBlockStart = (nodeId: string): boolean => {
+        return nodeId === nodeIds[0] || incoming.get(nodeId) !== 1;
+    };
+
+    const blocks: FlowchartBlock[] = [];
+    const blockOf = new Map<string, string>();
+
+    const collect = (startId: string) => {
+        const nodes = [startId];
+        blockOf.set(startId, startId);
+
+        let node = chapter.nodes[startId];
+        while (isSequential(node) && chapter.nodes[node.next!]
+            && !isBlockStart(node.next!) && !blockOf.has(node.next!)) {
+            nodes.push(node.next!);
+            blockOf.set(node.next!, startId);
+            node = chapter.nodes[node.next!];
+        }
+
+        const block: FlowchartBlock = { id: startId, kind: getKind(node), nodes };
+        const summaryNode = nodes.find(id => chapter.nodes[id].content);
+        if (summaryNode) block.summaryNode = summaryNode;
+        if (node.type === NodeType.END && node.chapter) block.nextChapter = node.chapter;
+        blocks.push(block);
+    };
+
+    for (const nodeId of nodeIds) {
+        if (isBlockStart(nodeId)) collect(nodeId);
+    }
+    // 只能从自身环路到达的节点
+    for (const nodeId of nodeIds) {
+        if (!blockOf.has(nodeId)) collect(nodeId);
+    }
+
+    blocks.sort((a, b) => nodeIds.indexOf(a.id) - nodeIds.indexOf(b.id));
+
+    return { chapterId: chapter.id, blocks, edges: buildEdges(chapter, blocks, blockOf) };
+}
+
+/**
+ * 区块出口连线（断链的出口忽略，由 StoryLinter 报告）
+ */
+function buildEdges(chapter: Chapter, blocks: FlowchartBlock[], blockOf: Map<string, string>): FlowchartEdge[] {
+    const edges: FlowchartEdge[] = [];
+
+    for (const block of blocks) {
+        const last = chapter.nodes[block.nodes[block.nodes.length - 1]];
+        const link = (target: string | undefined, extra: Partial<FlowchartEdge> = {}) => {
+            const to = target && blockOf.get(target);
+            if (to) edges.push({ from: block.id, to, ...extra });
+        };
+
+        last.choices?.forEach(choice => link(choice.next, { choiceId: choice.id }));
+        last.branches?.forEach((arm, index) => link(arm.next, { branchIndex: index }));
+        if (!last.choices) link(last.next);
+    }
+
+    return edges;
+}
+
+/**
+ * 节点所在的区块ID
+ */
+export function findBlock(graph: FlowchartGraph, nodeId: string): FlowchartBlock | undefined {
+    return graph.blocks.find(block => block.nodes.includes(nodeId));
+}
+
+function isSequential(node: StoryNode): boolean {
+    return node.type !== NodeType.CHOICE && node.type !== NodeType.BRANCH
+        && node.type !== NodeType.END && !!node.next;
+}
+
+function getKind(node: StoryNode): FlowchartBlockKind {
+    switch (node.type) {
+        case NodeType.CHOICE:
+            return 'choice';
+        case NodeType.BRANCH:
+            return 'branch';
+        case NodeType.END:
+            return 'end';
+        default:
+            return 'scene';
+    }
+}
+
+function getExits(node: StoryNode): string[] {
+    const exits: string[] = [];
+    if (node.next) exits.push(node.next);
+    node.choices?.forEach(choice => exits.push(choice.next));
+    node.branches?.forEach(arm => exits.push(arm.next));
+    return exits;
+}
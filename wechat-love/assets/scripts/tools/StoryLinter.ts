@@ -0,0 +1,251 @@
+/**
+ * 剧情结构检查 - StoryLinter
+ * 遍历每个章节的节点图，找出断链、不可达、死路等问题
+ * 不依赖引擎，可在游戏内或命令行（scripts/lint-story.ts）中运行
+ */
+
+import { NodeType, StoryNode, Chapter, StoryConfig } from '../core/StoryTypes';
+import { COMMON_CHAPTER_ID } from '../core/StorySchema';
+
+export type LintSeverity = 'error' | 'warning';
+
+// 检查结果
+export interface LintIssue {
+    severity: LintSeverity;
+    chapterId: string;
+    nodeId?: string;
+    message: string;
+}
+
+export interface LintOptions {
+    // 已注册的角色ID（来自CharacterSystem）
+    characterIds: string[];
+    // 不对应角色的合法说话者
+    extraSpeakers?: string[];
+    // 结局配置（来自characters.json），用于检查结局章节引用
+    endings?: Array<{ id: string; chapter?: string }>;
+    // 已登记的CG ID（来自gallery.json），提供时检查 unlock 效果的目标
+    cgIds?: string[];
+}
+
+// 默认允许的说话者：主角与未登场角色
+const DEFAULT_EXTRA_SPEAKERS = ['player', '???'];
+
+// 不需要出口的节点类型
+const TERMINAL_TYPES: string[] = [NodeType.END, NodeType.RETURN, NodeType.CALL];
+
+/**
+ * 检查整个剧情配置
+ */
+export function lintStory(config: StoryConfig, options: LintOptions): LintIssue[] {
+    const issues: LintIssue[] = [];
+    const chapterIds = new Set(config.chapters.map(c => c.id));
+
+    for (const chapter of config.chapters) {
+        lintChapter(chapter, chapterIds, options, issues);
+    }
+
+    lintCommonNodes(config, chapterIds, options, issues);
+    lintEndings(config, options, issues);
+
+    return issues;
+}
+
+/**
+ * 检查公共节点与调用：调用目标必须是公共节点，return 只能用于公共节点；公共节点从各调用目标（含好感场景）出发检查可达性
+ */
+function lintCommonNodes(config: StoryConfig, chapterIds: Set<string>, options: LintOptions, issues: LintIssue[]) {
+    const common: Chapter = { id: COMMON_CHAPTER_ID, title: '', description: '', nodes: config.commonNodes || {} };
+    const targets = new Set<string>();
+    const characters = new Set(options.characterIds);
+
+    for (const scene of config.favorScenes || []) {
+        if (!characters.has(scene.character)) {
+            issues.push({ severity: 'error', chapterId: COMMON_CHAPTER_ID, nodeId: scene.target, message: `好感场景的角色未注册: ${scene.character}` });
+        }
+        targets.add(scene.target);
+    }
+
+    for (const chapter of [...config.chapters, common]) {
+        for (const [nodeId, node] of Object.entries(chapter.nodes)) {
+            if (node.type === NodeType.CALL && node.target) {
+                if (!common.nodes[node.target]) {
+                    issues.push({ severity: 'error', chapterId: chapter.id, nodeId, message: `调用的公共节点不存在: ${node.target}` });
+                }
+                targets.add(node.target);
+            }
+            if (node.type === NodeType.RETURN && chapter !== common) {
+                issues.push({ severity: 'error', chapterId: chapter.id, nodeId, message: `${NodeType.RETURN} 节点只能用于公共节点` });
+            }
+        }
+    }
+
+    if (Object.keys(common.nodes).length > 0) {
+        lintChapter(common, chapterIds, options, issues, Array.from(targets));
+    }
+}
+
+/**
+ * 检查结局章节：结局引用的章节必须存在并标记为结局章节，结局章节应由结局判定进入
+ */
+function lintEndings(config: StoryConfig, options: LintOptions, issues: LintIssue[]) {
+    const chapters = new Map(config.chapters.map(c => [c.id, c]));
+
+    for (const ending of options.endings || []) {
+        if (!ending.chapter) continue;
+
+        const chapter = chapters.get(ending.chapter);
+        if (!chapter) {
+            issues.push({ severity: 'error', chapterId: ending.chapter, message: `结局 ${ending.id} 指向不存在的章节` });
+        } else if (!chapter.isEnding) {
+            issues.push({ severity: 'error', chapterId: chapter.id, message: `结局 ${ending.id} 的章节未标记 isEnding` });
+        }
+    }
+
+    for (const chapter of config.chapters) {
+        for (const [nodeId, node] of Object.entries(chapter.nodes)) {
+            if (node.type === NodeType.END && node.chapter && chapters.get(node.chapter)?.isEnding) {
+                issues.push({ severity: 'warning', chapterId: chapter.id, nodeId, message: `直接跳转到结局章节 ${node.chapter}，结局将不会被记录` });
+            }
+        }
+    }
+}
+
+/**
+ * 检查单个章节
+ * @param entries 可达性检查的起点，缺省为章节首节点
+ */
+export function lintChapter(
+    chapter: Chapter,
+    chapterIds: Set<string>,
+    options: LintOptions,
+    issues: LintIssue[] = [],
+    entries?: string[]
+): LintIssue[] {
+    const characters = new Set(options.characterIds);
+    const speakers = new Set([...options.characterIds, ...(options.extraSpeakers ?? DEFAULT_EXTRA_SPEAKERS)]);
+    const report = (severity: LintSeverity, nodeId: string | undefined, message: string) => {
+        issues.push({ severity, chapterId: chapter.id, nodeId, message });
+    };
+
+    const nodeIds = Object.keys(chapter.nodes);
+    if (nodeIds.length === 0) {
+        report('error', undefined, '章节没有任何节点');
+        return issues;
+    }
+
+    for (const [nodeId, node] of Object.entries(chapter.nodes)) {
+        // 跳转目标
+        if (node.next && !chapter.nodes[node.next]) {
+            report('error', nodeId, `next 指向不存在的节点: ${node.next}`);
+        }
+
+        node.choices?.forEach(choice => {
+            if (!chapter.nodes[choice.next]) {
+                report('error', nodeId, `选项 ${choice.id} 指向不存在的节点: ${choice.next}`);
+            }
+        });
+
+        node.branches?.forEach((arm, index) => {
+            if (!chapter.nodes[arm.next]) {
+                report('error', nodeId, `分支 ${index} 指向不存在的节点: ${arm.next}`);
+            }
+        });
+
+        if (node.type === NodeType.END && node.chapter && !chapterIds.has(node.chapter)) {
+            report('error', nodeId, `chapter 指向不存在的章节: ${node.chapter}`);
+        }
+
+        // 选择节点必须有选项
+        if (node.type === NodeType.CHOICE && (!node.choices || node.choices.length === 0)) {
+            report('error', nodeId, '选择节点没有任何选项');
+        }
+
+        // 分支节点必须有分支
+        if (node.type === NodeType.BRANCH && (!node.branches || node.branches.length === 0)) {
+            report('error', nodeId, '分支节点没有任何分支');
+        }
+
+        // 分支节点必须有默认出口，否则条件都不满足时剧情中断
+        if (node.type === NodeType.BRANCH && !node.next) {
+            report('error', nodeId, '分支节点没有默认出口 next');
+        }
+
+        // 死路：非结束节点却没有出口（调用节点没有 next 时返回后结束章节）
+        if (!TERMINAL_TYPES.includes(node.type) && getExits(node).length === 0) {
+            report('error', nodeId, '非结束节点没有任何出口');
+        }
+
+        // 角色引用
+        if (node.speaker && !speakers.has(node.speaker)) {
+            report('error', nodeId, `未知说话者: ${node.speaker}`);
+        }
+        if (node.character && !characters.has(node.character.id)) {
+            report('error', nodeId, `未知角色: ${node.character.id}`);
+        }
+        node.characters?.forEach(direction => {
+            if (!characters.has(direction.id)) {
+                report('error', nodeId, `未知角色: ${direction.id}`);
+            }
+        });
+
+        // 解锁目标
+        if (options.cgIds) {
+            const effects = [...(node.effects || []), ...(node.choices || []).flatMap(c => c.effects || [])];
+            for (const effect of effects) {
+                if (effect.type === 'unlock' && !options.cgIds.includes(effect.target)) {
+                    report('warning', nodeId, `unlock 目标未在画廊中登记: ${effect.target}`);
+                }
+            }
+        }
+    }
+
+    // 不可达节点：从章节首节点（或指定起点）出发遍历
+    const reachable = collectReachable(chapter, entries || [nodeIds[0]]);
+    for (const nodeId of nodeIds) {
+        if (!reachable.has(nodeId)) {
+            report('warning', nodeId, '没有任何节点可以到达此节点');
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * 获取节点的所有出口
+ */
+function getExits(node: StoryNode): string[] {
+    const exits: string[] = [];
+    if (node.next) exits.push(node.next);
+    node.choices?.forEach(choice => exits.push(choice.next));
+    node.branches?.forEach(arm => exits.push(arm.next));
+    return exits;
+}
+
+/**
+ * 广度优先收集可达节点
+ */
+function collectReachable(chapter: Chapter, startIds: string[]): Set<string> {
+    const visited = new Set<string>();
+    const queue = [...startIds];
+
+    while (queue.length > 0) {
+        const nodeId = queue.shift()!;
+        const node = chapter.nodes[nodeId];
+        if (!node || visited.has(nodeId)) continue;
+
+        visited.add(nodeId);
+        queue.push(...getExits(node));
+    }
+
+    return visited;
+}
+
+/**
+ * 格式化检查结果（用于日志输出）
+ */
+export function formatLintIssue(issue: LintIssue): string {
+    const location = issue.nodeId ? `${issue.chapterId}/${issue.nodeId}` : issue.chapterId;
+    const level = issue.severity === 'error' ? '错误' : '警告';
+    return `[${level}] [${location}] ${issue.message}`;
+}
@@ -0,0 +1,238 @@
+/**
+ * 剧情通关场景 - StoryScenario
+ * 描述一次无画面通关：按脚本或策略做选择，并给出期望的结局、好感度、标志位与经过的节点
+ * 不依赖引擎，驱动剧情由命令行（scripts/simulate-story.ts）完成，这里只负责场景校验、选项策略与结果比对
+ */
+
+import { ChoiceData } from '../core/StoryTypes';
+
+// 脚本选项用完后的选择策略
+export type ChoicePolicy =
+    | { type: 'first' }                          // 第一个可用选项
+    | { type: 'random' }                         // 随机（由场景的 seed 决定，可复现）
+    | { type: 'maxFavor'; character: string };   // 该角色好感度增加最多的选项（相同时取靠前的）
+
+// 数值期望：精确值或范围
+export type NumberExpectation = number | { min?: number; max?: number };
+
+// 期望结果，未填写的项不检查
+export interface ScenarioExpectation {
+    ending?: string | null;                          // 最终结局，null 表示没有达成任何结局
+    favor?: Record<string, NumberExpectation>;
+    flags?: Record<string, boolean>;
+    visited?: string[];                              // 必须经过的节点：章节ID/节点ID 或 节点ID
+    notVisited?: string[];                           // 不能经过的节点
+}
+
+// 通关场景（scenarios/*.json）
+export interface PlaythroughScenario {
+    name: string;
+    description?: string;
+    start?: string;              // 起始章节，缺省为第一章
+    choices?: string[];          // 按顺序使用的选项ID
+    policy?: ChoicePolicy;       // 脚本用完后的策略，缺省时脚本用完即失败
+    seed?: number;               // 随机策略的种子
+    maxSteps?: number;           // 最多经过的节点数，防止死循环
+    expect: ScenarioExpectation;
+}
+
+// 通关结果
+export interface PlaythroughResult {
+    completed: boolean;          // 是否播放到剧情结束
+    error?: string;              // 中途停止的原因
+    ending: string | null;       // 最终结局
+    endings: string[];           // 按顺序达成的结局
+    favor: Record<string, number>;
+    flags: Record<string, boolean>;
+    choices: string[];           // 实际做出的选择
+    path: string[];              // 经过的节点：章节ID/节点ID
+}
+
+// 场景报告
+export interface ScenarioReport {
+    name: string;
+    passed: boolean;
+    failures: string[];
+    result: PlaythroughResult;
+}
+
+// 默认最多经过的节点数
+export const DEFAULT_MAX_STEPS = 2000;
+
+const POLICY_TYPES: string[] = ['first', 'random', 'maxFavor'];
+
+// ==================== 场景校验 ====================
+
+/**
+ * 校验并解析通关场景
+ */
+export function parseScenario(raw: any): { scenario: PlaythroughScenario | null; errors: string[] } {
+    const errors: string[] = [];
+    const push = (path: string, message: string) => errors.push(`${path}: ${message}`);
+
+    if (!isObject(raw)) {
+        return { scenario: null, errors: ['场景必须是对象'] };
+    }
+
+    if (!isNonEmptyString(raw.name)) push('name', '缺少场景名称');
+    if (raw.start !== undefined && !isNonEmptyString(raw.start)) push('start', '必须是章节ID');
+    if (raw.choices !== undefined && !isStringArray(raw.choices)) push('choices', '必须是选项ID数组');
+    if (raw.maxSteps !== undefined && !(Number.isInteger(raw.maxSteps) && raw.maxSteps > 0)) {
+        push('maxSteps', '必须是正整数');
+    }
+    if (raw.seed !== undefined && !Number.isInteger(raw.seed)) push('seed', '必须是整数');
+
+    if (raw.policy !== undefined) {
+        if (!isObject(raw.policy) || !POLICY_TYPES.includes(raw.policy.type)) {
+            push('policy.type', `必须是 ${POLICY_TYPES.join(' / ')} 之一`);
+        } else if (raw.policy.type === 'maxFavor' && !isNonEmptyString(raw.policy.character)) {
+            push('policy.character', 'maxFavor 策略缺少角色ID');
+        }
+    }
+
+    const expect = raw.expect;
+    if (!isObject(expect)) {
+        push('expect', '缺少期望结果');
+    } else {
+        if (expect.ending !== undefined && expect.ending !== null && !isNonEmptyString(expect.ending)) {
+            push('expect.ending', '必须是结局ID或 null');
+        }
+        if (expect.favor !== undefined) {
+            if (!isObject(expect.favor)) {
+                push('expect.favor', '必须是 角色ID -> 数值 的对象');
+            } else {
+                for (const [id, value] of Object.entries(expect.favor)) {
+                    if (!isNumberExpectation(value)) push(`expect.favor.${id}`, '必须是数值或 { min, max }');
+                }
+            }
+        }
+        if (expect.flags !== undefined && !(isObject(expect.flags)
+            && Object.values(expect.flags).every(v => typeof v === 'boolean'))) {
+            push('expect.flags', '必须是 标志位 -> 布尔值 的对象');
+        }
+        if (expect.visited !== undefined && !isStringArray(expect.visited)) push('expect.visited', '必须是节点数组');
+        if (expect.notVisited !== undefined && !isStringArray(expect.notVisited)) push('expect.notVisited', '必须是节点数组');
+    }
+
+    return { scenario: errors.length === 0 ? raw as PlaythroughScenario : null, errors };
+}
+
+// ==================== 选项策略 ====================
+
+/**
+ * 按策略从可用选项中选择
+ * @param random 随机策略使用的随机数（0-1）
+ */
+export function pickChoice<T extends ChoiceData>(policy: ChoicePolicy, choices: T[], random: () => number = Math.random): T | undefined {
+    switch (policy.type) {
+        case 'first':
+            return choices[0];
+        case 'random':
+            return choices[Math.floor(random() * choices.length)];
+        case 'maxFavor': {
+            let best: T | undefined;
+            for (const choice of choices) {
+                const delta = choice.favorChange?.[policy.character] ?? 0;
+                if (!best || delta > (best.favorChange?.[policy.character] ?? 0)) {
+                    best = choice;
+                }
+            }
+            return best;
+        }
+    }
+}
+
+// ==================== 结果比对 ====================
+
+/**
+ * 将通关结果与期望比对
+ */
+export function checkScenario(scenario: PlaythroughScenario, result: PlaythroughResult): ScenarioReport {
+    const failures: string[] = [];
+    const expect = scenario.expect;
+
+    if (!result.completed) {
+        failures.push(`未能通关: ${result.error || '剧情未结束'}`);
+    }
+
+    if (expect.ending !== undefined && expect.ending !== result.ending) {
+        failures.push(`结局: 期望 ${expect.ending ?? '无'}，实际 ${result.ending ?? '无'}`);
+    }
+
+    for (const [id, expected] of Object.entries(expect.favor || {})) {
+        const actual = result.favor[id];
+        if (actual === undefined) {
+            failures.push(`好感度 ${id}: 角色不存在`);
+        } else if (!matchNumber(expected, actual)) {
+            failures.push(`好感度 ${id}: 期望 ${formatNumberExpectation(expected)}，实际 ${actual}`);
+        }
+    }
+
+    for (const [flag, expected] of Object.entries(expect.flags || {})) {
+        const actual = result.flags[flag] ?? false;
+        if (actual !== expected) {
+            failures.push(`标志位 ${flag}: 期望 ${expected}，实际 ${actual}`);
+        }
+    }
+
+    for (const node of expect.visited || []) {
+        if (!hasVisited(result.path, node)) failures.push(`未经过节点: ${node}`);
+    }
+    for (const node of expect.notVisited || []) {
+        if (hasVisited(result.path, node)) failures.push(`不应经过节点: ${node}`);
+    }
+
+    return { name: scenario.name, passed: failures.length === 0, failures, result };
+}
+
+/**
+ * 格式化场景报告（用于日志输出）
+ */
+export function formatScenarioReport(report: ScenarioReport): string {
+    const { result } = report;
+    const favor = Object.entries(result.favor).map(([id, value]) => `${id}=${value}`).join(', ');
+    const lines = [
+        `${report.passed ? '✅' : '❌'} ${report.name}`,
+        `   结局: ${result.ending ?? '无'}  选择: ${result.choices.join(' → ') || '无'}  节点数: ${result.path.length}`,
+        `   好感度: ${favor || '无'}`,
+    ];
+    report.failures.forEach(failure => lines.push(`   - ${failure}`));
+    return lines.join('\n');
+}
+
+function hasVisited(path: string[], node: string): boolean {
+    return node.includes('/')
+        ? path.includes(node)
+        : path.some(entry => entry.slice(entry.indexOf('/') + 1) === node);
+}
+
+function matchNumber(expected: NumberExpectation, actual: number): boolean {
+    if (typeof expected === 'number') return actual === expected;
+    return (expected.min === undefined || actual >= expected.min)
+        && (expected.max === undefined || actual <= expected.max);
+}
+
+function formatNumberExpectation(expected: NumberExpectation): string {
+    if (typeof expected === 'number') return String(expected);
+    return `${expected.min ?? '-∞'} ~ ${expected.max ?? '+∞'}`;
+}
+
+function isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: any): boolean {
+    return typeof value === 'string' && value.length > 0;
+}
+
+function isStringArray(value: any): boolean {
+    return Array.isArray(value) && value.every(isNonEmptyString);
+}
+
+function isNumberExpectation(value: any): boolean {
+    if (typeof value === 'number') return true;
+    return isObject(value)
+        && (value.min !== undefined || value.max !== undefined)
+        && (value.min === undefined || typeof value.min === 'number')
+        && (value.max === undefined || typeof value.max === 'number');
+}
@@ -0,0 +1,1216 @@
+/**
+ * 剧情脚本 - StoryScript
+ * 纯文本剧情脚本与章节数据（story.json 中的 Chapter/StoryNode 结构）互相转换，不依赖引擎
+ *   compileStoryScript: 脚本 -> 章节，错误带行号
+ *   decompileStory:     章节 -> 脚本，并回编译校验结果一致
+ *
+ * 语法（每行一条语句，# 开头为注释，缩进无意义）：
+ *   chapter ch00 序章 - 入学第一天      开始一个章节，标题为其余部分
+ *   @description 故事从...              章节属性：简介
+ *   @bgm bgm_chapter_0                  章节属性：BGM
+ *   @unlock chapter ch00                章节属性：解锁条件
+ *   @require heroine_1 10               章节属性：所需好感度（可多行）
+ *   @ending                             章节属性：结局章节
+ *
+ *   label ch00_01                       下一条语句的节点ID，缺省时按 <上一个标签>_<序号> 命名
+ *   scene bg_corridor crossfade 500     下一节点的背景与转场
+ *   show heroine_1 smile right          下一节点的角色显示，可追加 with <淡入淡出>
+ *   stage exit heroine_2                下一节点的登场角色变化（可多行）：
+ *                                         stage [enter|exit|pose|move|front] <角色ID> [姿态] [位置] [with <淡入淡出>]
+ *   voice voice_001                     下一节点的语音
+ *   bgm bgm_date [nofade] / bgm stop    下一节点切换/停止BGM（ambient 环境音同理）
+ *   sfx sfx_door, sfx_step              下一节点的音效
+ *   when flag polite                    下一节点的触发条件
+ *   timer 5 [default stay]              下一个 menu 限时（秒），超时选择默认选项
+ *   $ flag met_yuqing, unlock cg_x      下一节点的效果
+ *
+ *   heroine_1 smile: 同学，你是新生吗？    对话：说话者 [姿态 [位置]]: 文本，写姿态时同时显示该角色
+ *   九月的阳光洒在...                    旁白：不属于其他语句的行，以 \ 开头时强制为旁白
+ *   event 一个篮球朝我飞来...             事件
+ *   menu 如何回应？                       选择，其后每个 * 行为一个选项：
+ *   * [选项ID |] 文本 -> 目标 [[效果, ...]] [if 条件]
+ *   if 条件 / elif 条件 / else / endif   条件分支，分支结束后继续执行 endif 之后的语句
+ *   jump 目标                            跳转到本章节的标签
+ *   stop                                 到此结束本章（节点不设置 next）
+ *   end [章节ID]                         结束节点，可指定下一章节
+ *   call homeroom_morning               调用公共节点，返回后继续执行之后的语句
+ *
+ *   common                              开始公共节点部分（各章节共用的场景），其中以 return 返回调用处
+ *
+ *   条件: 类型 [目标] [>=|<=|== 值]，多个条件用 and 连接
+ *   效果: 类型 目标 [操作] [值]，值缺省为 true；选项中的 favor 记为好感度变化（favorChange）
+ *   条件与效果都可以直接写 JSON 对象
+ */
+
+import {
+    NodeType, StoryNode, ChoiceData, BranchArm, Condition, Effect, Chapter, StoryConfig,
+    CharacterDisplay, StageDirection, SceneTransition, AudioCue,
+} from '../core/StoryTypes';
+import { parseStoryConfig, COMMON_CHAPTER_ID } from '../core/StorySchema';
+
+// 编译错误
+export interface StoryScriptError {
+    line: number;            // 从1开始
+    message: string;
+}
+
+// 编译结果
+export interface StoryScriptResult {
+    chapters: Chapter[] | null;
+    commonNodes?: Record<string, StoryNode>; // 脚本包含 common 部分时
+    errors: StoryScriptError[];
+}
+
+// 反编译结果
+export interface StoryDecompileResult {
+    script: string;
+    warnings: string[];      // 无法用脚本准确表示的内容
+}
+
+const KEYWORDS = [
+    'chapter', 'label', 'scene', 'show', 'stage', 'voice', 'bgm', 'ambient', 'sfx', 'when', 'timer',
+    'event', 'menu', 'if', 'elif', 'else', 'endif', 'jump', 'stop', 'end', 'call', 'return', 'common',
+];
+const COMPARE_OPS = ['>=', '<=', '=='];
+const VARIABLE_OPS = ['set', 'add', 'sub', 'toggle', 'min', 'max'];
+const POSITIONS = ['left', 'center', 'right'];
+const STAGE_ACTIONS = ['enter', 'exit', 'pose', 'move', 'front'];
+// 没有目标的条件类型
+const TARGETLESS_CONDITIONS = ['currency', 'play_time'];
+// 按有符号数显示的数值效果
+const SIGNED_EFFECTS = ['favor', 'attribute', 'currency'];
+
+const IDENTIFIER = /^[A-Za-z_][\w]*$/;
+const DIALOG_LINE = /^(\?\?\?|[A-Za-z_]\w*)((?:\s+[A-Za-z_]\w*){0,2})\s*:\s*(.*)$/;
+const INDENT = '    ';
+
+/**
+ * 格式化编译错误（用于日志输出）
+ */
+export function formatScriptError(error: StoryScriptError, file?: string): string {
+    return file ? `${file} 第${error.line}行: ${error.message}` : `第${error.line}行: ${error.message}`;
+}
+
+// ==================== 语句 ====================
+
+// 附加到下一节点的修饰
+interface Modifiers {
+    line: number;            // 第一条修饰所在行
+    label?: string;
+    background?: string;
+    transition?: SceneTransition;
+    character?: CharacterDisplay;
+    characters?: StageDirection[];
+    voice?: string;
+    bgm?: AudioCue;
+    ambient?: AudioCue;
+    sfx?: string | string[];
+    conditions?: Condition[];
+    effects?: Effect[];
+    timeLimit?: number;
+    defaultChoiceId?: string;
+}
+
+interface ScriptChoice {
+    line: number;
+    choice: ChoiceData;
+}
+
+interface BranchClause {
+    line: number;
+    conditions: Condition[];
+    body: Statement[];
+}
+
+type Statement =
+    | { kind: 'node'; line: number; mods: Modifiers; node: Partial<StoryNode>; choices?: ScriptChoice[] }
+    | { kind: 'if'; line: number; mods: Modifiers; clauses: BranchClause[]; elseBody?: Statement[] }
+    | { kind: 'jump'; line: number; target: string }
+    | { kind: 'stop'; line: number };
+
+interface ScriptChapter {
+    line: number;
+    chapter: Chapter;
+    body: Statement[];
+    common?: boolean;        // 公共节点部分
+}
+
+// 引用的跳转目标（编译后检查是否存在）
+interface TargetRef {
+    line: number;
+    target: string;
+}
+
+class LineError extends Error {}
+
+// ==================== 编译 ====================
+
+/**
+ * 编译剧情脚本
+ */
+export function compileStoryScript(source: string): StoryScriptResult {
+    const errors: StoryScriptError[] = [];
+    const scriptChapters = parseScript(source, errors);
+    if (errors.length > 0) {
+        return { chapters: null, errors };
+    }
+
+    const chapters: Chapter[] = [];
+    let commonNodes: Record<string, StoryNode> | undefined;
+    const nodeLines = new Map<string, number>();
+    for (const scriptChapter of scriptChapters) {
+        const chapter = compileChapter(scriptChapter, nodeLines, errors);
+        if (scriptChapter.common) {
+            commonNodes = chapter.nodes;
+        } else {
+            chapters.push(chapter);
+        }
+    }
+    if (errors.length > 0) {
+        return { chapters: null, errors };
+    }
+
+    // 结构校验与 StoryManager 加载时一致，错误定位到节点所在行
+    const { errors: schemaErrors } = parseStoryConfig(omitUndefined({ chapters, commonNodes }));
+    for (const error of schemaErrors) {
+        const line = nodeLines.get(`${error.chapterId}/${error.nodeId ?? ''}`) ?? 0;
+        errors.push({ line, message: `${error.path}: ${error.message}` });
+    }
+
+    if (errors.length > 0) {
+        return { chapters: null, errors };
+    }
+    return omitUndefined({ chapters, commonNodes, errors });
+}
+
+/**
+ * 逐行解析为章节与语句
+ */
+function parseScript(source: string, errors: StoryScriptError[]): ScriptChapter[] {
+    const chapters: ScriptChapter[] = [];
+    let current: ScriptChapter | null = null;
+    let pending: Modifiers | null = null;
+    let menu: Extract<Statement, { kind: 'node' }> | null = null;
+    // 未闭合的 if，及当前写入的语句列表
+    const blocks: Array<Extract<Statement, { kind: 'if' }>> = [];
+    let body: Statement[] = [];
+
+    const closeChapter = () => {
+        if (pending) {
+            errors.push({ line: pending.line, message: '修饰之后缺少语句' });
+            pending = null;
+        }
+        for (const block of blocks) {
+            errors.push({ line: block.line, message: 'if 缺少 endif' });
+        }
+        blocks.length = 0;
+        menu = null;
+    };
+
+    const modifiers = (line: number): Modifiers => {
+        if (!pending) pending = { line };
+        return pending;
+    };
+
+    const setModifier = <K extends keyof Modifiers>(line: number, key: K, value: Modifiers[K], name: string) => {
+        const mods = modifiers(line);
+        if (mods[key] !== undefined) throw new LineError(`重复的 ${name}`);
+        mods[key] = value;
+    };
+
+    const addStatement = (statement: Statement) => {
+        if (statement.kind === 'node' || statement.kind === 'if') {
+            statement.mods = pending || { line: statement.line };
+            pending = null;
+        } else if (pending) {
+            throw new LineError('修饰之后必须是节点语句');
+        }
+        body.push(statement);
+        menu = statement.kind === 'node' && statement.node.type === NodeType.CHOICE ? statement : null;
+    };
+
+    // 进入/退出分支块
+    const currentBody = (): Statement[] => {
+        const block = blocks[blocks.length - 1];
+        if (!block) return current!.body;
+        return block.elseBody || block.clauses[block.clauses.length - 1].body;
+    };
+
+    source.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = index + 1;
+        const text = rawLine.trim();
+        if (!text || text.startsWith('#')) return;
+
+        try {
+            const [word] = text.split(/\s+/, 1);
+            const rest = text.slice(word.length).trim();
+
+            if (word === 'common') {
+                if (rest) throw new LineError('common 之后不能有其他内容');
+                if (chapters.some(c => c.common)) throw new LineError('公共节点部分重复');
+                if (current) closeChapter();
+                current = {
+                    line,
+                    chapter: { id: COMMON_CHAPTER_ID, title: '', description: '', nodes: {} },
+                    body: [],
+                    common: true,
+                };
+                chapters.push(current);
+                body = current.body;
+                return;
+            }
+
+            if (word === 'chapter') {
+                if (current) closeChapter();
+                const [id] = rest.split(/\s+/, 1);
+                if (!id) throw new LineError('缺少章节ID');
+                current = {
+                    line,
+                    chapter: {
+                        id,
+                        title: rest.slice(id.length).trim(),
+                        description: '',
+                        unlockCondition: null as any,
+                        requiredFavor: {},
+                        nodes: {},
+                    },
+                    body: [],
+                };
+                chapters.push(current);
+                body = current.body;
+                return;
+            }
+
+            if (!current) throw new LineError('语句必须写在 chapter 或 common 之后');
+            const chapter = current.chapter;
+
+            // 章节属性
+            if (word.startsWith('@')) {
+                if (current.common) throw new LineError('公共节点部分没有章节属性');
+                if (current.body.length > 0 || pending) throw new LineError('章节属性必须写在第一条语句之前');
+                parseChapterProperty(chapter, word.slice(1), rest);
+                return;
+            }
+
+            // 选项
+            if (word.startsWith('*')) {
+                if (!menu || pending) throw new LineError('选项必须紧跟在 menu 之后');
+                const target = menu as Extract<Statement, { kind: 'node' }>;
+                const choice = parseChoice(text.slice(1).trim(), target.choices!.length);
+                target.choices!.push({ line, choice });
+                return;
+            }
+
+            if (word === '$') {
+                const effects = modifiers(line).effects || [];
+                effects.push(...splitTopLevel(rest, ',').map(item => parseEffect(item)));
+                pending!.effects = effects;
+                return;
+            }
+
+            switch (word) {
+                case 'label':
+                    if (!IDENTIFIER.test(rest)) throw new LineError(`无效的标签: ${rest}`);
+                    setModifier(line, 'label', rest, 'label');
+                    return;
+
+                case 'scene': {
+                    const [background, type, duration, extra] = rest.split(/\s+/);
+                    if (!background || extra) throw new LineError('格式应为 scene <背景> [转场 [时长]]');
+                    setModifier(line, 'background', background, 'scene');
+                    if (type) {
+                        const transition: SceneTransition = { type: type as any };
+                        if (duration) transition.duration = parseNumber(duration);
+                        pending!.transition = transition;
+                    }
+                    return;
+                }
+
+                case 'show':
+                    setModifier(line, 'character', parseShow(rest), 'show');
+                    return;
+
+                case 'stage': {
+                    const mods = modifiers(line);
+                    mods.characters = [...(mods.characters || []), parseStageDirection(rest)];
+                    return;
+                }
+
+                case 'voice':
+                    if (!rest) throw new LineError('缺少语音ID');
+                    setModifier(line, 'voice', rest, 'voice');
+                    return;
+
+                case 'bgm':
+                case 'ambient':
+                    setModifier(line, word as 'bgm' | 'ambient', parseAudioCue(rest), word);
+                    return;
+
+                case 'sfx': {
+                    const sfx = splitTopLevel(rest, ',');
+                    if (sfx.length === 0) throw new LineError('缺少音效');
+                    setModifier(line, 'sfx', sfx.length === 1 ? sfx[0] : sfx, 'sfx');
+                    return;
+                }
+
+                case 'when':
+                    setModifier(line, 'conditions', parseConditions(rest), 'when');
+                    return;
+
+                case 'timer': {
+                    const [seconds, keyword, choiceId, extra] = rest.split(/\s+/);
+                    if (!seconds || (keyword && (keyword !== 'default' || !choiceId)) || extra) {
+                        throw new LineError('格式应为 timer <秒数> [default <选项ID>]');
+                    }
+                    setModifier(line, 'timeLimit', parseNumber(seconds), 'timer');
+                    pending!.defaultChoiceId = choiceId;
+                    return;
+                }
+
+                case 'event':
+                    addStatement({ kind: 'node', line, mods: null!, node: { type: NodeType.EVENT, content: rest } });
+                    return;
+
+                case 'menu':
+                    addStatement({ kind: 'node', line, mods: null!, node: { type: NodeType.CHOICE, content: rest }, choices: [] });
+                    return;
+
+                case 'end':
+                    if (rest && !IDENTIFIER.test(rest)) throw new LineError(`无效的章节ID: ${rest}`);
+                    addStatement({ kind: 'node', line, mods: null!, node: { type: NodeType.END, chapter: rest || undefined } });
+                    return;
+
+                case 'jump':
+                    if (!IDENTIFIER.test(rest)) throw new LineError(`无效的跳转目标: ${rest}`);
+                    addStatement({ kind: 'jump', line, target: rest });
+                    return;
+
+                case 'call':
+                    if (!IDENTIFIER.test(rest)) throw new LineError(`无效的调用目标: ${rest}`);
+                    addStatement({ kind: 'node', line, mods: null!, node: { type: NodeType.CALL, target: rest } });
+                    return;
+
+                case 'return':
+                    if (rest) throw new LineError('return 之后不能有其他内容');
+                    addStatement({ kind: 'node', line, mods: null!, node: { type: NodeType.RETURN } });
+                    return;
+
+                case 'stop':
+                    if (rest) throw new LineError('stop 之后不能有其他内容');
+                    addStatement({ kind: 'stop', line });
+                    return;
+
+                case 'if': {
+                    const statement: Extract<Statement, { kind: 'if' }> = {
+                        kind: 'if',
+                        line,
+                        mods: null!,
+                        clauses: [{ line, conditions: parseConditions(rest), body: [] }],
+                    };
+                    addStatement(statement);
+                    blocks.push(statement);
+                    body = currentBody();
+                    menu = null;
+                    return;
+                }
+
+                case 'elif':
+                case 'else':
+                case 'endif': {
+                    const block = blocks[blocks.length - 1];
+                    if (!block) throw new LineError(`${word} 没有对应的 if`);
+                    if (pending) throw new LineError('修饰之后缺少语句');
+
+                    if (word === 'endif') {
+                        blocks.pop();
+                    } else if (block.elseBody) {
+                        throw new LineError(`else 之后不能再有 ${word}`);
+                    } else if (word === 'elif') {
+                        block.clauses.push({ line, conditions: parseConditions(rest), body: [] });
+                    } else {
+                        if (rest) throw new LineError('else 之后不能有其他内容');
+                        block.elseBody = [];
+                    }
+                    body = currentBody();
+                    menu = null;
+                    return;
+                }
+            }
+
+            // 对话与旁白
+            if (word.startsWith('\\')) {
+                addStatement({ kind: 'node', line, mods: null!, node: { type: NodeType.NARRATION, content: text.slice(1) } });
+                return;
+            }
+
+            const dialog = DIALOG_LINE.exec(text);
+            if (dialog) {
+                const [, speaker, display, content] = dialog;
+                const statement: Statement = { kind: 'node', line, mods: null!, node: { type: NodeType.DIALOG, speaker, content } };
+                addStatement(statement);
+
+                const [pose, position] = display.trim().split(/\s+/).filter(Boolean);
+                if (pose) {
+                    if (speaker === '???') throw new LineError('??? 不能指定姿态，请使用 show');
+                    if (statement.mods.character) throw new LineError('已用 show 指定角色显示');
+                    statement.mods.character = parseShow(`${speaker} ${pose} ${position || ''}`);
+                }
+                return;
+            }
+
+            addStatement({ kind: 'node', line, mods: null!, node: { type: NodeType.NARRATION, content: text } });
+        } catch (e) {
+            if (!(e instanceof LineError) && !(e instanceof SyntaxError)) throw e;
+            errors.push({ line, message: e.message });
+        }
+    });
+
+    if (current) closeChapter();
+    if (chapters.every(c => c.common) && errors.length === 0) {
+        errors.push({ line: 1, message: '脚本中没有任何章节' });
+    }
+
+    return chapters;
+}
+
+/**
+ * 解析章节属性
+ */
+function parseChapterProperty(chapter: Chapter, name: string, value: string) {
+    switch (name) {
+        case 'description':
+            chapter.description = value;
+            return;
+        case 'bgm':
+            if (!value) throw new LineError('缺少BGM');
+            chapter.bgm = value;
+            return;
+        case 'unlock': {
+            const conditions = parseConditions(value);
+            if (conditions.length !== 1) throw new LineError('解锁条件只能有一个，可使用 all/any 组合');
+            chapter.unlockCondition = conditions[0];
+            return;
+        }
+        case 'require': {
+            const [characterId, amount, extra] = value.split(/\s+/);
+            if (!characterId || !amount || extra) throw new LineError('格式应为 @require <角色ID> <好感度>');
+            chapter.requiredFavor![characterId] = parseNumber(amount);
+            return;
+        }
+        case 'ending':
+            if (value) throw new LineError('@ending 之后不能有其他内容');
+            chapter.isEnding = true;
+            return;
+        default:
+            throw new LineError(`未知章节属性: @${name}`);
+    }
+}
+
+/**
+ * 解析角色显示：<角色ID> <姿态> [位置] [with <淡入淡出>]
+ */
+function parseShow(text: string): CharacterDisplay {
+    const tokens = text.split(/\s+/).filter(Boolean);
+    const [id, pose] = tokens;
+    if (!id || !pose) throw new LineError('格式应为 show <角色ID> <姿态> [位置] [with <淡入淡出>]');
+
+    const display: CharacterDisplay = { id, pose, position: 'center' };
+    let index = 2;
+    if (tokens[index] && tokens[index] !== 'with') {
+        if (!POSITIONS.includes(tokens[index])) throw new LineError(`未知位置: ${tokens[index]}，可选值: ${POSITIONS.join('/')}`);
+        display.position = tokens[index++];
+    }
+    if (tokens[index] === 'with') {
+        if (!tokens[index + 1]) throw new LineError('with 之后缺少淡入淡出方式');
+        display.fade = tokens[index + 1];
+        index += 2;
+    }
+    if (index < tokens.length) throw new LineError(`多余的内容: ${tokens.slice(index).join(' ')}`);
+
+    return display;
+}
+
+/**
+ * 解析登场角色变化：[操作] <角色ID> [姿态] [位置] [with <淡入淡出>]
+ */
+function parseStageDirection(text: string): StageDirection {
+    const tokens = text.split(/\s+/).filter(Boolean);
+    const action = STAGE_ACTIONS.includes(tokens[0]) ? tokens.shift() : undefined;
+    const id = tokens.shift();
+    if (!id || !IDENTIFIER.test(id)) throw new LineError('格式应为 stage [操作] <角色ID> [姿态] [位置] [with <淡入淡出>]');
+
+    let pose: string | undefined;
+    let position: string | undefined;
+    let fade: string | undefined;
+    while (tokens.length > 0) {
+        const token = tokens.shift()!;
+        if (token === 'with') {
+            fade = tokens.shift();
+            if (!fade) throw new LineError('with 之后缺少淡入淡出方式');
+        } else if (POSITIONS.includes(token) && !position) {
+            position = token;
+        } else if (!pose) {
+            pose = token;
+        } else {
+            throw new LineError(`多余的内容: ${token}`);
+        }
+    }
+
+    return omitUndefined({ id, action, pose, position, fade }) as StageDirection;
+}
+
+/**
+ * 解析音频指令：<音频名|stop> [fade|nofade]，只写音频名时为字符串
+ */
+function parseAudioCue(text: string): AudioCue {
+    const [name, fade, extra] = text.split(/\s+/).filter(Boolean);
+    if (!name || extra || (fade && fade !== 'fade' && fade !== 'nofade')) {
+        throw new LineError('格式应为 <音频名|stop> [fade|nofade]');
+    }
+
+    if (name !== 'stop' && !fade) return name;
+    return omitUndefined({
+        name: name !== 'stop' ? name : undefined,
+        fade: fade ? fade === 'fade' : undefined,
+        stop: name === 'stop' || undefined,
+    });
+}
+
+/**
+ * 解析选项：[选项ID |] 文本 -> 目标 [[效果, ...]] [if 条件]
+ */
+function parseChoice(text: string, index: number): ChoiceData {
+    let id = '';
+    const idMatch = /^([A-Za-z_]\w*)\s*\|\s*/.exec(text);
+    if (idMatch) {
+        id = idMatch[1];
+        text = text.slice(idMatch[0].length);
+    }
+
+    const arrow = text.lastIndexOf('->');
+    if (arrow === -1) throw new LineError('选项缺少 -> 目标');
+
+    const choiceText = text.slice(0, arrow).trim();
+    let rest = text.slice(arrow + 2).trim();
+    const [next] = rest.split(/\s+/, 1);
+    if (!choiceText) throw new LineError('选项缺少文本');
+    if (!next || !IDENTIFIER.test(next)) throw new LineError(`无效的跳转目标: ${next || ''}`);
+    rest = rest.slice(next.length).trim();
+
+    const choice: ChoiceData = { id: id || defaultChoiceId(index), text: choiceText, next };
+
+    let effectsText = '';
+    if (rest.startsWith('[')) {
+        const close = findClosing(rest, 0);
+        effectsText = rest.slice(1, close);
+        rest = rest.slice(close + 1).trim();
+    }
+
+    if (rest) {
+        if (!/^if\s/.test(rest)) throw new LineError(`多余的内容: ${rest}`);
+        choice.conditions = parseConditions(rest.slice(2));
+    }
+
+    const effects: Effect[] = [];
+    for (const item of splitTopLevel(effectsText, ',')) {
+        const effect = parseEffect(item);
+        if (effect.type === 'favor' && !item.startsWith('{')) {
+            if (typeof effect.value !== 'number') throw new LineError(`好感度变化必须是数值: ${item}`);
+            choice.favorChange = { ...choice.favorChange, [effect.target]: effect.value };
+        } else {
+            effects.push(effect);
+        }
+    }
+
+    // 与 story.json 中的键顺序一致
+    return {
+        id: choice.id,
+        text: choice.text,
+        next: choice.next,
+        conditions: choice.conditions,
+        effects: effects.length > 0 ? effects : undefined,
+        favorChange: choice.favorChange,
+    };
+}
+
+function defaultChoiceId(index: number): string {
+    return `choice_${index + 1}`;
+}
+
+/**
+ * 解析条件列表：条件 and 条件 ...
+ */
+function parseConditions(text: string): Condition[] {
+    const tokens = splitTopLevel(text, ' ');
+    if (tokens.length === 0) throw new LineError('缺少条件');
+
+    const groups: string[][] = [[]];
+    for (const token of tokens) {
+        if (token === 'and') {
+            groups.push([]);
+        } else {
+            groups[groups.length - 1].push(token);
+        }
+    }
+
+    return groups.map(group => {
+        if (group.length === 0) throw new LineError('and 两侧必须都有条件');
+        return parseCondition(group);
+    });
+}
+
+/**
+ * 解析单个条件：类型 [目标] [比较运算符 值]，或JSON对象
+ */
+function parseCondition(tokens: string[]): Condition {
+    if (tokens[0].startsWith('{')) {
+        if (tokens.length > 1) throw new LineError(`多余的内容: ${tokens.slice(1).join(' ')}`);
+        return parseJson(tokens[0]);
+    }
+
+    const [type, ...rest] = tokens;
+    let target: string | undefined;
+    if (!TARGETLESS_CONDITIONS.includes(type)) {
+        target = rest.shift();
+        if (!target) throw new LineError(`条件缺少目标: ${type}`);
+    }
+
+    let op: string | undefined;
+    if (COMPARE_OPS.includes(rest[0])) {
+        op = rest.shift();
+        if (rest.length === 0) throw new LineError(`${op} 之后缺少值`);
+    }
+
+    const value = rest.length > 0 ? parseValue(rest.shift()!) : undefined;
+    if (rest.length > 0) throw new LineError(`多余的内容: ${rest.join(' ')}`);
+
+    return omitUndefined({ type, target, op, value }) as Condition;
+}
+
+/**
+ * 解析单个效果：类型 目标 [操作] [值]，或JSON对象
+ */
+function parseEffect(text: string): Effect {
+    if (text.startsWith('{')) return parseJson(text);
+
+    const [type, target, ...rest] = splitTopLevel(text, ' ');
+    if (!target) throw new LineError(`效果缺少目标: ${text}`);
+
+    const op = type === 'var' && VARIABLE_OPS.includes(rest[0]) ? rest.shift() : undefined;
+    const value = rest.length > 0 ? parseValue(rest.shift()!) : true;
+    if (rest.length > 0) throw new LineError(`多余的内容: ${rest.join(' ')}`);
+
+    return omitUndefined({ type, target, op, value }) as Effect;
+}
+
+/**
+ * 编译章节：逆序处理语句，后一条语句的入口即前一条语句的 next
+ */
+function compileChapter(scriptChapter: ScriptChapter, nodeLines: Map<string, number>, errors: StoryScriptError[]): Chapter {
+    const { chapter } = scriptChapter;
+    const nodes: Array<{ line: number; id: string; node: StoryNode }> = [];
+    const refs: TargetRef[] = [];
+    const ids = new Map<Statement, string>();
+
+    nodeLines.set(`${chapter.id}/`, scriptChapter.line);
+
+    // 先按出现顺序分配节点ID
+    const labels = new Set<string>();
+    const collectLabels = (body: Statement[]) => {
+        for (const statement of body) {
+            if (statement.kind !== 'node' && statement.kind !== 'if') continue;
+            const label = statement.mods.label;
+            if (label) {
+                if (labels.has(label)) errors.push({ line: statement.mods.line, message: `标签重复: ${label}` });
+                labels.add(label);
+            }
+            if (statement.kind === 'if') {
+                statement.clauses.forEach(clause => collectLabels(clause.body));
+                if (statement.elseBody) collectLabels(statement.elseBody);
+            }
+        }
+    };
+    collectLabels(scriptChapter.body);
+
+    let base = chapter.id;
+    let counter = 0;
+    const assignIds = (body: Statement[]) => {
+        for (const statement of body) {
+            if (statement.kind !== 'node' && statement.kind !== 'if') continue;
+            let id = statement.mods.label;
+            if (id) {
+                base = id;
+                counter = 0;
+            } else {
+                id = `${base}_${++counter}`;
+                if (labels.has(id)) {
+                    errors.push({ line: statement.line, message: `自动命名的节点ID与标签冲突: ${id}，请为该语句添加 label` });
+                }
+            }
+            ids.set(statement, id);
+            nodeLines.set(`${chapter.id}/${id}`, statement.line);
+
+            if (statement.kind === 'if') {
+                statement.clauses.forEach(clause => assignIds(clause.body));
+                if (statement.elseBody) assignIds(statement.elseBody);
+            }
+        }
+    };
+    assignIds(scriptChapter.body);
+
+    const compileBlock = (body: Statement[], next: string | undefined): string | undefined => {
+        for (let i = body.length - 1; i >= 0; i--) {
+            next = compileStatement(body[i], next);
+        }
+        return next;
+    };
+
+    const compileStatement = (statement: Statement, next: string | undefined): string | undefined => {
+        switch (statement.kind) {
+            case 'jump':
+                refs.push({ line: statement.line, target: statement.target });
+                return statement.target;
+
+            case 'stop':
+                return undefined;
+
+            case 'if': {
+                const id = ids.get(statement)!;
+                const branches: BranchArm[] = [];
+                for (const clause of statement.clauses) {
+                    const entry = compileBlock(clause.body, next);
+                    if (!entry) {
+                        errors.push({ line: clause.line, message: '分支没有可执行的语句' });
+                        continue;
+                    }
+                    branches.push({ conditions: clause.conditions, next: entry });
+                }
+                const fallback = statement.elseBody ? compileBlock(statement.elseBody, next) : next;
+                nodes.push({ line: statement.line, id, node: buildNode({ type: NodeType.BRANCH, branches, next: fallback }, statement.mods) });
+                return id;
+            }
+
+            case 'node': {
+                const id = ids.get(statement)!;
+                const data: Partial<StoryNode> = { ...statement.node };
+                if (statement.choices) {
+                    data.choices = statement.choices.map(({ line, choice }) => {
+                        refs.push({ line, target: choice.next });
+                        return choice;
+                    });
+                } else if (data.type !== NodeType.END && data.type !== NodeType.RETURN) {
+                    data.next = next;
+                }
+                nodes.push({ line: statement.line, id, node: buildNode(data, statement.mods) });
+                return id;
+            }
+        }
+    };
+
+    compileBlock(scriptChapter.body, undefined);
+
+    // 节点按源码顺序排列（第一个节点为章节入口）
+    nodes.sort((a, b) => a.line - b.line);
+    for (const { id, node } of nodes) {
+        chapter.nodes[id] = node;
+    }
+
+    for (const ref of refs) {
+        if (!chapter.nodes[ref.target]) {
+            errors.push({ line: ref.line, message: `跳转目标不存在: ${ref.target}` });
+        }
+    }
+
+    // 与 story.json 中的键顺序一致
+    return omitUndefined({
+        id: chapter.id,
+        title: chapter.title,
+        description: chapter.description,
+        unlockCondition: chapter.unlockCondition,
+        bgm: chapter.bgm,
+        requiredFavor: chapter.requiredFavor,
+        isEnding: chapter.isEnding,
+        nodes: chapter.nodes,
+    }) as Chapter;
+}
+
+/**
+ * 组装节点（键顺序与 story.json 一致；节点ID即映射键，与 story.json 一样不写入节点）
+ */
+function buildNode(data: Partial<StoryNode>, mods: Modifiers): StoryNode {
+    return omitUndefined({
+        type: data.type,
+        background: mods.background,
+        transition: mods.transition,
+        character: mods.character,
+        characters: mods.characters,
+        speaker: data.speaker,
+        content: data.content,
+        voice: mods.voice,
+        bgm: mods.bgm,
+        ambient: mods.ambient,
+        sfx: mods.sfx,
+        conditions: mods.conditions,
+        effects: mods.effects,
+        choices: data.choices,
+        timeLimit: mods.timeLimit,
+        defaultChoiceId: mods.defaultChoiceId,
+        branches: data.branches,
+        target: data.target,
+        next: data.next,
+        chapter: data.chapter,
+    }) as StoryNode;
+}
+
+// ==================== 反编译 ====================
+
+/**
+ * 反编译剧情配置为脚本，回编译结果与原数据不一致的节点记入 warnings
+ */
+export function decompileStory(config: StoryConfig): StoryDecompileResult {
+    const lines: string[] = [];
+    for (const chapter of config.chapters) {
+        if (lines.length > 0) lines.push('');
+        writeChapter(chapter, lines);
+    }
+
+    if (config.commonNodes && Object.keys(config.commonNodes).length > 0) {
+        lines.push('');
+        lines.push('common');
+        writeNodes(config.commonNodes, lines);
+    }
+
+    const script = lines.join('\n') + '\n';
+    return { script, warnings: verifyRoundTrip(config, script) };
+}
+
+function writeChapter(chapter: Chapter, lines: string[]) {
+    lines.push(`chapter ${chapter.id} ${chapter.title}`.trim());
+    if (chapter.description) lines.push(`@description ${chapter.description}`);
+    if (chapter.bgm) lines.push(`@bgm ${chapter.bgm}`);
+    if (chapter.unlockCondition) lines.push(`@unlock ${formatCondition(chapter.unlockCondition)}`);
+    for (const [characterId, amount] of Object.entries(chapter.requiredFavor || {})) {
+        lines.push(`@require ${characterId} ${amount}`);
+    }
+    if (chapter.isEnding) lines.push('@ending');
+
+    writeNodes(chapter.nodes, lines);
+}
+
+function writeNodes(nodes: Record<string, StoryNode>, lines: string[]) {
+    const entries = Object.entries(nodes);
+    entries.forEach(([nodeId, node], index) => {
+        const followingId = entries[index + 1]?.[0];
+        lines.push('');
+        lines.push(`label ${nodeId}`);
+        writeNode(node, followingId, lines);
+    });
+}
+
+function writeNode(node: StoryNode, followingId: string | undefined, lines: string[]) {
+    if (node.background) {
+        const transition = node.transition;
+        lines.push(['scene', node.background, transition?.type, transition?.duration].filter(v => v !== undefined).join(' '));
+    }
+
+    // 说话者即显示的角色时写在对话行内
+    const character = node.character;
+    const inline = !!character && node.type === NodeType.DIALOG && character.id === node.speaker && !character.fade;
+    if (character && !inline) {
+        lines.push(`show ${character.id} ${character.pose} ${character.position}${character.fade ? ` with ${character.fade}` : ''}`);
+    }
+
+    for (const direction of node.characters || []) {
+        const { action, id, pose, position, fade } = direction;
+        lines.push(['stage', action, id, pose, position, fade && `with ${fade}`].filter(Boolean).join(' '));
+    }
+    if (node.voice) lines.push(`voice ${node.voice}`);
+    if (node.bgm) lines.push(`bgm ${formatAudioCue(node.bgm)}`);
+    if (node.ambient) lines.push(`ambient ${formatAudioCue(node.ambient)}`);
+    if (node.sfx) lines.push(`sfx ${([] as string[]).concat(node.sfx).join(', ')}`);
+    if (node.conditions?.length) lines.push(`when ${formatConditions(node.conditions)}`);
+    for (const effect of node.effects || []) {
+        lines.push(`$ ${formatEffect(effect)}`);
+    }
+
+    switch (node.type) {
+        case NodeType.DIALOG: {
+            const display = inline
+                ? ` ${character!.pose}${character!.position !== 'center' ? ` ${character!.position}` : ''}`
+                : '';
+            lines.push(`${node.speaker}${display}: ${node.content}`);
+            break;
+        }
+        case NodeType.NARRATION:
+            lines.push(isPlainNarration(node.content) ? node.content : `\\${node.content}`);
+            break;
+        case NodeType.EVENT:
+            lines.push(`event ${node.content}`.trim());
+            break;
+        case NodeType.CHOICE:
+            if (node.timeLimit !== undefined) {
+                lines.push(`timer ${node.timeLimit}${node.defaultChoiceId ? ` default ${node.defaultChoiceId}` : ''}`);
+            }
+            lines.push(`menu ${node.content}`.trim());
+            node.choices?.forEach((choice, index) => lines.push(formatChoice(choice, index)));
+            return;
+        case NodeType.END:
+            lines.push(node.chapter ? `end ${node.chapter}` : 'end');
+            return;
+        case NodeType.CALL:
+            lines.push(`call ${node.target}`);
+            break;
+        case NodeType.RETURN:
+            lines.push('return');
+            return;
+        case NodeType.BRANCH:
+            node.branches?.forEach((arm, index) => {
+                lines.push(`${index === 0 ? 'if' : 'elif'} ${formatConditions(arm.conditions)}`);
+                lines.push(`${INDENT}jump ${arm.next}`);
+            });
+            if (node.next !== followingId) {
+                lines.push('else');
+                lines.push(`${INDENT}${node.next ? `jump ${node.next}` : 'stop'}`);
+            }
+            lines.push('endif');
+            return;
+    }
+
+    // 顺序执行的节点：下一节点不是紧接着的节点时显式跳转
+    if (node.next !== followingId) {
+        lines.push(node.next ? `jump ${node.next}` : 'stop');
+    }
+}
+
+/**
+ * 旁白是否能原样写出（否则需以 \ 开头）
+ */
+function isPlainNarration(content: string): boolean {
+    if (!content || content !== content.trim()) return false;
+    if (/^[#@*$\\]/.test(content) || DIALOG_LINE.test(content)) return false;
+    return !KEYWORDS.includes(content.split(/\s+/, 1)[0]);
+}
+
+function formatAudioCue(cue: AudioCue): string {
+    if (typeof cue === 'string') return cue;
+    const fade = cue.fade === undefined ? '' : cue.fade ? ' fade' : ' nofade';
+    return `${cue.stop ? 'stop' : cue.name}${fade}`;
+}
+
+function formatChoice(choice: ChoiceData, index: number): string {
+    const items = (choice.effects || []).map(effect => {
+        const text = formatEffect(effect);
+        // 选项中的 favor 会被解析为好感度变化，需写成JSON
+        return effect.type === 'favor' && !text.startsWith('{') ? JSON.stringify(effect) : text;
+    });
+    for (const [characterId, amount] of Object.entries(choice.favorChange || {})) {
+        items.push(`favor ${characterId} ${formatValue(amount, true)}`);
+    }
+
+    const id = choice.id === defaultChoiceId(index) ? '' : `${choice.id} | `;
+    const effects = items.length > 0 ? ` [${items.join(', ')}]` : '';
+    const conditions = choice.conditions?.length ? ` if ${formatConditions(choice.conditions)}` : '';
+    return `* ${id}${choice.text} -> ${choice.next}${effects}${conditions}`;
+}
+
+function formatConditions(conditions: Condition[]): string {
+    return conditions.map(formatCondition).join(' and ');
+}
+
+/**
+ * 格式化条件，无法用简写准确表示时写成JSON
+ */
+function formatCondition(condition: Condition): string {
+    const text = [
+        condition.type,
+        condition.target,
+        condition.op,
+        condition.value !== undefined ? formatValue(condition.value) : undefined,
+    ].filter(v => v !== undefined).join(' ');
+
+    try {
+        if (isSameData(parseCondition(splitTopLevel(text, ' ')), condition)) return text;
+    } catch (e) {
+        // 简写无法解析，使用JSON
+    }
+    return JSON.stringify(condition);
+}
+
+/**
+ * 格式化效果，无法用简写准确表示时写成JSON
+ */
+function formatEffect(effect: Effect): string {
+    const text = [
+        effect.type,
+        effect.target,
+        effect.op,
+        effect.value !== true ? formatValue(effect.value, SIGNED_EFFECTS.includes(effect.type)) : undefined,
+    ].filter(v => v !== undefined).join(' ');
+
+    try {
+        if (isSameData(parseEffect(text), effect)) return text;
+    } catch (e) {
+        // 简写无法解析，使用JSON
+    }
+    return JSON.stringify(effect);
+}
+
+/**
+ * 回编译脚本，与原配置逐节点比较
+ */
+function verifyRoundTrip(config: StoryConfig, script: string): string[] {
+    const warnings: string[] = [];
+    const compiled = compileStoryScript(script);
+    if (!compiled.chapters) {
+        compiled.errors.forEach(error => warnings.push(`回编译失败: ${formatScriptError(error)}`));
+        return warnings;
+    }
+
+    const original = parseStoryConfig(omitUndefined({ chapters: config.chapters, commonNodes: config.commonNodes })).config;
+    const result = parseStoryConfig(omitUndefined({ chapters: compiled.chapters, commonNodes: compiled.commonNodes })).config;
+    if (!original || !result) {
+        warnings.push('剧情配置未通过格式校验，无法比较');
+        return warnings;
+    }
+
+    original.chapters.forEach((chapter, index) => {
+        const other = result.chapters[index];
+        const { nodes, ...fields } = chapter;
+        const { nodes: otherNodes, ...otherFields } = other;
+
+        if (!isSameData(fields, otherFields)) {
+            warnings.push(`[${chapter.id}] 章节属性无法用脚本准确表示`);
+        }
+        compareNodes(chapter.id, nodes, otherNodes, warnings);
+    });
+
+    if (original.commonNodes) {
+        compareNodes(COMMON_CHAPTER_ID, original.commonNodes, result.commonNodes || {}, warnings);
+    }
+
+    return warnings;
+}
+
+function compareNodes(scope: string, nodes: Record<string, StoryNode>, otherNodes: Record<string, StoryNode>, warnings: string[]) {
+    if (Object.keys(nodes).join() !== Object.keys(otherNodes).join()) {
+        warnings.push(`[${scope}] 节点顺序不一致`);
+    }
+    for (const [nodeId, node] of Object.entries(nodes)) {
+        if (!isSameData(node, otherNodes[nodeId])) {
+            warnings.push(`[${scope}/${nodeId}] 节点无法用脚本准确表示`);
+        }
+    }
+}
+
+// ==================== 工具方法 ====================
+
+/**
+ * 按分隔符切分，忽略引号与括号内的分隔符（' ' 表示任意空白）
+ */
+function splitTopLevel(text: string, separator: ',' | ' '): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let inString = false;
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+        } else if (ch === '"') {
+            inString = true;
+        } else if (ch === '{' || ch === '[') {
+            depth++;
+        } else if (ch === '}' || ch === ']') {
+            depth--;
+        } else if (depth === 0 && (separator === ' ' ? /\s/.test(ch) : ch === separator)) {
+            parts.push(text.slice(start, i));
+            start = i + 1;
+        }
+    }
+    if (inString || depth !== 0) throw new LineError(`引号或括号不匹配: ${text}`);
+
+    parts.push(text.slice(start));
+    return parts.map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * 找到与 start 处括号匹配的右括号
+ */
+function findClosing(text: string, start: number): number {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+        } else if (ch === '"') {
+            inString = true;
+        } else if (ch === '{' || ch === '[') {
+            depth++;
+        } else if ((ch === '}' || ch === ']') && --depth === 0) {
+            return i;
+        }
+    }
+    throw new LineError(`括号不匹配: ${text}`);
+}
+
+/**
+ * 解析值：JSON字面量、数值（可带 + 号），其余视为字符串
+ */
+function parseValue(text: string): any {
+    if (/^[\[{"]/.test(text) || text === 'true' || text === 'false' || text === 'null') {
+        return parseJson(text);
+    }
+    if (/^[+-]?\d+(\.\d+)?$/.test(text)) {
+        return Number(text);
+    }
+    return text;
+}
+
+function formatValue(value: any, signed: boolean = false): string {
+    if (typeof value === 'number') {
+        return signed && value > 0 ? `+${value}` : String(value);
+    }
+    if (typeof value === 'string' && /^[^\s,\[\]{}"]+$/.test(value) && parseValue(value) === value && value !== 'and') {
+        return value;
+    }
+    return JSON.stringify(value);
+}
+
+function parseNumber(text: string): number {
+    const value = Number(text);
+    if (!Number.isFinite(value)) throw new LineError(`必须是数值: ${text}`);
+    return value;
+}
+
+function parseJson(text: string): any {
+    try {
+        return JSON.parse(text);
+    } catch (e) {
+        throw new LineError(`JSON格式错误: ${text}`);
+    }
+}
+
+function omitUndefined<T extends Record<string, any>>(data: T): T {
+    for (const key of Object.keys(data)) {
+        if (data[key] === undefined) delete data[key];
+    }
+    return data;
+}
+
+/**
+ * 深比较（值为 undefined 的键视为不存在）
+ */
+function isSameData(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const keysA = Object.keys(a).filter(key => a[key] !== undefined);
+    const keysB = Object.keys(b).filter(key => b[key] !== undefined);
+    if (keysA.length !== keysB.length) return false;
+    return keysA.every(key => isSameData(a[key], b[key]));
+}
@@ -0,0 +1,93 @@
+/**
+ * 姓名输入面板 - NameEntry界面控制器
+ * 新游戏开始前输入主角的姓和名，可从微信昵称导入
+ */
+
+import { _decorator, Component, Node, Button, Label, EditBox } from 'cc';
+import { PlayerManager } from '../core/PlayerManager';
+import { I18nManager } from '../core/I18nManager';
+
+const { ccclass, property } = _decorator;
+
+@ccclass('NameEntryPanel')
+export class NameEntryPanel extends Component {
+    // 输入框
+    @property({ type: EditBox })
+    editSurname: EditBox = null!;
+
+    @property({ type: EditBox })
+    editGivenName: EditBox = null!;
+
+    // 按钮
+    @property({ type: Button })
+    btnWechat: Button = null!;
+
+    @property({ type: Button })
+    btnConfirm: Button = null!;
+
+    // 错误提示
+    @property({ type: Label })
+    errorLabel: Label = null!;
+
+    private _player: PlayerManager = null!;
+
+    onLoad() {
+        this._player = PlayerManager.instance;
+        this.initButtons();
+
+        // 预填当前姓名
+        this.editSurname.string = this._player.getSurname();
+        this.editGivenName.string = this._player.getGivenName();
+        this.showError('');
+    }
+
+    /**
+     * 初始化按钮事件
+     */
+    private initButtons() {
+        this.btnWechat.node.on('click', this.onImportWechat, this);
+        this.btnConfirm.node.on('click', this.onConfirm, this);
+    }
+
+    // ==================== 按钮回调 ====================
+
+    /**
+     * 从微信昵称导入
+     */
+    private async onImportWechat() {
+        const suggestion = await this._player.suggestNameFromWechat();
+        if (!suggestion) {
+            this.showError(I18nManager.instance.t('ui.name_entry.wechat_failed', undefined, '无法从微信昵称生成姓名，请手动输入'));
+            return;
+        }
+
+        this.editSurname.string = suggestion.surname;
+        this.editGivenName.string = suggestion.givenName;
+
+        const result = this._player.validateName(suggestion.surname, suggestion.givenName);
+        this.showError(result.valid ? '' : result.error!);
+    }
+
+    /**
+     * 确认姓名
+     */
+    private onConfirm() {
+        const result = this._player.setName(this.editSurname.string, this.editGivenName.string);
+        if (!result.valid) {
+            this.showError(result.error!);
+            return;
+        }
+
+        console.log(`[NameEntry] 确认姓名: ${this._player.getName()}`);
+    }
+
+    // ==================== 工具方法 ====================
+
+    /**
+     * 显示错误提示
+     */
+    private showError(message: string) {
+        this.errorLabel.string = message;
+        this.errorLabel.node.active = !!message;
+    }
+}
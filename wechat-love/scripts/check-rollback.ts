@@ -0,0 +1,103 @@
+/**
+ * 回退检查脚本
+ * 不启动引擎，通关到选择之后再回退到选择节点，检查对话记录与好感度是否回到选择之前
+ * 任一检查失败时以非零状态退出
+ *
+ * 用法: npx tsx scripts/check-rollback.ts [--verbose]
+ */
+
+import { runPlaythrough, initHeadlessGame } from './headless/playthrough';
+import { StoryManager } from '../assets/scripts/core/StoryManager';
+import { CharacterSystem } from '../assets/scripts/core/CharacterSystem';
+import { BacklogSystem } from '../assets/scripts/core/BacklogSystem';
+import { RollbackSystem } from '../assets/scripts/core/RollbackSystem';
+
+// 序章：ch00_04 为选择节点，choice_01_a 使林雨晴好感 +5
+const CHOICE_NODE = 'ch00_04';
+const CHOICE_ID = 'choice_01_a';
+const CHARACTER_ID = 'heroine_1';
+const LINES_BEFORE_CHOICE = ['ch00_start', 'ch00_01', 'ch00_02', 'ch00_03', CHOICE_NODE];
+
+// 报告使用原始日志函数，游戏系统日志默认静默
+const log = console.log;
+const error = console.error;
+
+function silence() {
+    console.log = () => {};
+    console.warn = () => {};
+    console.error = () => {};
+}
+
+function getFavor(): number {
+    return CharacterSystem.instance.getCharacter(CHARACTER_ID)?.favor ?? 0;
+}
+
+function describeBacklog(): string {
+    return BacklogSystem.instance.getEntries().map(e => `${e.type}:${e.nodeId}`).join(', ');
+}
+
+async function main(): Promise<number> {
+    if (!process.argv.includes('--verbose')) silence();
+
+    await initHeadlessGame();
+    BacklogSystem.instance.init();
+    RollbackSystem.instance.init();
+
+    const story = StoryManager.instance;
+    const backlog = BacklogSystem.instance;
+    const rollback = RollbackSystem.instance;
+    const failures: string[] = [];
+
+    // 做出选择后继续播放到序章结束后停止
+    await runPlaythrough({ start: 'ch00', choices: [CHOICE_ID], maxSteps: 7 });
+    const favorAfter = getFavor();
+
+    while (story.getProgress().node !== CHOICE_NODE && rollback.canRollback()) {
+        rollback.rollback();
+    }
+
+    const entries = backlog.getEntries();
+    const favorBefore = getFavor();
+
+    if (story.getProgress().node !== CHOICE_NODE) {
+        failures.push(`没有回退到选择节点，当前: ${story.getProgress().node}`);
+    }
+    if (favorBefore !== favorAfter - 5) {
+        failures.push(`好感度没有恢复: 选择后 ${favorAfter}，回退后 ${favorBefore}`);
+    }
+    if (entries.some(e => e.type === 'choice')) {
+        failures.push(`回退后仍有选择记录: ${describeBacklog()}`);
+    }
+    if (entries.some(e => !LINES_BEFORE_CHOICE.includes(e.nodeId))) {
+        failures.push(`回退后仍有选择之后的记录: ${describeBacklog()}`);
+    }
+    if (new Set(entries.map(e => e.nodeId)).size !== entries.length) {
+        failures.push(`回退后有重复记录: ${describeBacklog()}`);
+    }
+
+    // 再次选择：记录与效果与第一次相同
+    const choice = story.getChapter('ch00')?.nodes[CHOICE_NODE].choices?.find(c => c.id === CHOICE_ID);
+    if (choice) {
+        await story.selectChoice(choice);
+        const choices = backlog.getEntries().filter(e => e.type === 'choice');
+        if (choices.length !== 1 || choices[0].nodeId !== CHOICE_NODE) {
+            failures.push(`再次选择后的选择记录不正确: ${describeBacklog()}`);
+        }
+        if (getFavor() !== favorAfter) {
+            failures.push(`再次选择后好感度不正确: ${getFavor()}`);
+        }
+    } else {
+        failures.push(`选择节点没有选项: ${CHOICE_ID}`);
+    }
+
+    if (failures.length > 0) {
+        failures.forEach(f => error(`[错误] ${f}`));
+        error('\n❌ 回退检查失败');
+        return 1;
+    }
+
+    log(`✅ 回退检查通过: 回退到 ${CHOICE_NODE}，对话记录 ${entries.length} 条`);
+    return 0;
+}
+
+main().then(code => process.exit(code));
@@ -0,0 +1,142 @@
+/**
+ * 路线探索脚本
+ * 不启动引擎，按多种策略抽样通关（剧情选项 + 章节间的送礼、约会、聊天），输出好感度分布与结局达成率报告
+ * 用于调整 numbers.json 前确认各结局是否可以达成
+ *
+ * 用法: npx tsx scripts/explore-routes.ts [--runs 200] [--seed 1] [--activities 3] [--json] [--out 文件]
+ *   --runs        每种策略的抽样次数
+ *   --activities  每章结束后的活动次数
+ *   --json        输出JSON（默认Markdown）
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { runPlaythrough, initHeadlessGame } from './headless/playthrough';
+import { StoryManager } from '../assets/scripts/core/StoryManager';
+import { CharacterSystem } from '../assets/scripts/core/CharacterSystem';
+import { InventorySystem } from '../assets/scripts/core/InventorySystem';
+import { MessageSystem } from '../assets/scripts/game/MessageSystem';
+import { createRandom } from '../assets/scripts/core/RandomService';
+import {
+    BalanceConfig, ExplorerStrategy, ExplorerRun, EndingInfo, ReplyOption,
+    buildActivities, pickActivity, rollFavor, activityLabel, summarizeRuns, formatExplorerMarkdown,
+} from '../assets/scripts/tools/RouteExplorer';
+
+const CONFIG_DIR = path.resolve(__dirname, '../assets/resources/data/game-config');
+
+// 报告使用原始日志函数，游戏系统日志静默
+const log = console.log;
+
+function readJson(file: string): any {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+function getOption(args: string[], name: string, fallback: number): number {
+    const index = args.indexOf(name);
+    const value = index >= 0 ? Number(args[index + 1]) : fallback;
+    if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`${name} 必须是非负整数`);
+    }
+    return value;
+}
+
+async function main(): Promise<number> {
+    const args = process.argv.slice(2);
+    const runsPerStrategy = getOption(args, '--runs', 200);
+    const seed = getOption(args, '--seed', 1);
+    const activitiesPerChapter = getOption(args, '--activities', 3);
+    const outIndex = args.indexOf('--out');
+    const outFile = outIndex >= 0 ? args[outIndex + 1] : '';
+
+    const balance: BalanceConfig = readJson(path.join(CONFIG_DIR, 'numbers.json'));
+    const characters: any[] = readJson(path.join(CONFIG_DIR, 'characters.json')).characters;
+    const characterIds: string[] = characters.map(c => c.id);
+    const endings: EndingInfo[] = characters.flatMap(c => (c.endings || []).map((e: any) => ({
+        id: e.id,
+        characterId: c.id,
+        name: e.name,
+        requiredFavor: e.condition?.type === 'favor' ? e.condition.value : undefined,
+    })));
+
+    console.log = () => {};
+    console.warn = () => {};
+    console.error = () => {};
+
+    await initHeadlessGame();
+
+    const replies: Record<string, ReplyOption[]> = Object.fromEntries(
+        characterIds.map(id => [id, MessageSystem.instance.getQuickReplies(id)]));
+    const activities = buildActivities(balance, replies, characterIds);
+    const chapterReward = balance.rewards?.story?.chapter_complete?.amount ?? 0;
+
+    // 随机游玩，以及每位角色的专一攻略（剧情选该角色好感最高的选项，活动只为该角色安排）
+    const strategies: ExplorerStrategy[] = [
+        { id: 'random', name: '随机', policy: { type: 'random' } },
+        ...characters.map(c => ({
+            id: `focus_${c.id}`,
+            name: `专一${c.name}`,
+            policy: { type: 'maxFavor' as const, character: c.id },
+            focus: c.id,
+        })),
+    ];
+
+    const runs: ExplorerRun[] = [];
+    for (const strategy of strategies) {
+        for (let i = 0; i < runsPerStrategy; i++) {
+            const runSeed = seed * 1000003 + runs.length;
+            const random = createRandom(runSeed);
+            const done: string[] = [];
+
+            // 主线章节结束后：领取章节奖励，进行若干次活动
+            const onChapterCompleted = (chapterId: string) => {
+                if (StoryManager.instance.getChapter(chapterId)?.isEnding) return;
+
+                const inventory = InventorySystem.instance;
+                const characterSystem = CharacterSystem.instance;
+                inventory.addCurrency(chapterReward);
+
+                for (let n = 0; n < activitiesPerChapter; n++) {
+                    const favor = Object.fromEntries(characterSystem.getAllCharacters().map(c => [c.id, c.favor]));
+                    const activity = pickActivity(strategy, activities, { favor, currency: inventory.getCurrency() }, random);
+                    if (!activity) break;
+
+                    inventory.spendCurrency(activity.cost);
+                    characterSystem.changeFavor(activity.characterId, rollFavor(activity, random));
+                    done.push(activityLabel(activity));
+                }
+            };
+
+            const result = await runPlaythrough({ policy: strategy.policy, seed: runSeed, random, onChapterCompleted });
+            runs.push({
+                strategy: strategy.id,
+                ending: result.ending,
+                favor: result.favor,
+                choices: result.choices,
+                activities: done,
+                error: result.error,
+            });
+        }
+    }
+
+    const report = summarizeRuns(runs, {
+        characterIds,
+        endings,
+        strategies,
+        levelThresholds: balance.gameBalance.favor.levelThresholds,
+        levelNames: balance.gameBalance.favor.levelNames,
+        activitiesPerChapter,
+        seed,
+    });
+
+    const output = args.includes('--json') ? JSON.stringify(report, null, 4) + '\n' : formatExplorerMarkdown(report);
+    if (outFile) {
+        fs.writeFileSync(outFile, output);
+        log(`✅ 路线探索完成: ${report.runs}次通关，报告已写入 ${outFile}`);
+    } else {
+        log(output);
+    }
+
+    return report.errors > 0 ? 1 : 0;
+}
+
+main().then(code => process.exit(code));
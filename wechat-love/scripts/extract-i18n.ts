@@ -0,0 +1,180 @@
+/**
+ * 多语言文本提取脚本
+ * 从剧情、角色、画廊与数值配置中提取原文，合并到 resources/data/i18n/<语言>.json
+ *   - 回退语言（zh_CN）的表以配置原文为准，始终覆盖
+ *   - 其他语言保留已有译文，缺失的键写入空字符串，待翻译
+ *   - 表中手工维护的键（界面文本、成就等）保持不变
+ *
+ * 用法: npx tsx scripts/extract-i18n.ts [--check]
+ *   --check  只检查，不写文件；存在未翻译的键时以非零状态退出
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseStoryConfig, formatSchemaError } from '../assets/scripts/core/StorySchema';
+import { StoryNode } from '../assets/scripts/core/StoryTypes';
+
+const DATA_DIR = path.resolve(__dirname, '../assets/resources/data');
+const CONFIG_DIR = path.join(DATA_DIR, 'game-config');
+const I18N_DIR = path.join(DATA_DIR, 'i18n');
+
+// 与 I18nManager 保持一致
+const SUPPORTED_LOCALES = ['zh_CN', 'en_US'];
+const FALLBACK_LOCALE = 'zh_CN';
+
+type StringTable = Record<string, any>;
+
+function readJson(file: string): any {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+/**
+ * 提取剧情文本：章节标题、节点内容（含公共节点）、选项文本
+ */
+function extractStory(source: StringTable): boolean {
+    const { config, errors } = parseStoryConfig(readJson(path.join(CONFIG_DIR, 'story.json')));
+    if (!config) {
+        errors.forEach(error => console.error(`[错误] ${formatSchemaError(error)}`));
+        return false;
+    }
+
+    for (const chapter of config.chapters) {
+        source[chapter.titleKey!] = chapter.title;
+        extractNodes(source, chapter.nodes);
+    }
+    extractNodes(source, config.commonNodes || {});
+    return true;
+}
+
+function extractNodes(source: StringTable, nodes: Record<string, StoryNode>) {
+    for (const node of Object.values(nodes)) {
+        if (node.content) {
+            source[node.contentKey!] = node.content;
+        }
+        for (const choice of node.choices || []) {
+            source[choice.textKey!] = choice.text;
+        }
+    }
+}
+
+/**
+ * 提取角色名、头衔与结局名
+ */
+function extractCharacters(source: StringTable) {
+    const { characters } = readJson(path.join(CONFIG_DIR, 'characters.json'));
+
+    for (const character of characters) {
+        source[`character.${character.id}.name`] = character.name;
+        if (character.title) {
+            source[`character.${character.id}.title`] = character.title;
+        }
+        for (const ending of character.endings || []) {
+            source[`ending.${ending.id}.name`] = ending.name;
+        }
+    }
+}
+
+/**
+ * 提取CG标题
+ */
+function extractGallery(source: StringTable) {
+    const { cgs } = readJson(path.join(CONFIG_DIR, 'gallery.json'));
+
+    for (const cg of cgs) {
+        source[`cg.${cg.id}.title`] = cg.title;
+    }
+}
+
+/**
+ * 提取数值配置中的文本：好感度等级、属性名、物品
+ */
+function extractNumbers(source: StringTable) {
+    const numbers = readJson(path.join(CONFIG_DIR, 'numbers.json'));
+    const balance = numbers.gameBalance || {};
+
+    (balance.favor?.levelNames || []).forEach((name: string, index: number) => {
+        source[`favor.level.${index + 1}`] = name;
+    });
+
+    for (const [id, attr] of Object.entries<any>(balance.attributes || {})) {
+        source[`attribute.${id}.name`] = attr.name;
+    }
+
+    for (const group of Object.values<any[]>(numbers.items || {})) {
+        for (const item of group) {
+            source[`item.${item.id}.name`] = item.name;
+            source[`item.${item.id}.description`] = item.description;
+        }
+    }
+}
+
+/**
+ * 合并到字符串表，返回 [新增键数, 未翻译键数]
+ */
+function merge(table: StringTable, source: StringTable, isFallback: boolean): [number, number] {
+    let added = 0;
+
+    for (const [key, text] of Object.entries(source)) {
+        if (isFallback) {
+            if (table[key] === undefined) added++;
+            table[key] = text;
+        } else if (table[key] === undefined) {
+            table[key] = '';
+            added++;
+        }
+    }
+
+    const missing = Object.keys(table).filter(key => table[key] === '').length;
+    return [added, missing];
+}
+
+/**
+ * 按键排序，便于比对差异
+ */
+function sortTable(table: StringTable): StringTable {
+    const sorted: StringTable = {};
+    for (const key of Object.keys(table).sort()) {
+        sorted[key] = table[key];
+    }
+    return sorted;
+}
+
+function main(): number {
+    const checkOnly = process.argv.includes('--check');
+
+    const source: StringTable = {};
+    if (!extractStory(source)) {
+        console.error('\n❌ story.json 格式校验失败，无法提取');
+        return 1;
+    }
+    extractCharacters(source);
+    extractGallery(source);
+    extractNumbers(source);
+
+    let untranslated = 0;
+
+    for (const locale of SUPPORTED_LOCALES) {
+        const file = path.join(I18N_DIR, `${locale}.json`);
+        const table: StringTable = fs.existsSync(file) ? readJson(file) : {};
+
+        const [added, missing] = merge(table, source, locale === FALLBACK_LOCALE);
+        untranslated += missing;
+
+        if (!checkOnly) {
+            fs.mkdirSync(I18N_DIR, { recursive: true });
+            fs.writeFileSync(file, JSON.stringify(sortTable(table), null, 2) + '\n');
+        }
+
+        console.log(`${locale}: ${Object.keys(table).length}个键, 新增${added}, 未翻译${missing}`);
+    }
+
+    if (checkOnly && untranslated > 0) {
+        console.error(`\n❌ 存在${untranslated}个未翻译的键`);
+        return 1;
+    }
+
+    console.log(`✅ 提取完成: ${Object.keys(source).length}条原文`);
+    return 0;
+}
+
+process.exit(main());
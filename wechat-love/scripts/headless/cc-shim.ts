@@ -0,0 +1,98 @@
+/**
+ * Cocos Creator 运行时替身
+ * 只提供核心系统用到的类与函数，节点与组件只保存属性，动画立即完成
+ * 由 env.ts 注册为 'cc' 模块，供命令行无画面运行剧情使用
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class Node {
+    parent: Node | null = null;
+    children: Node[] = [];
+    active: boolean = false;
+    position = { x: 0, y: 0, z: 0 };
+    scale = { x: 1, y: 1, z: 1 };
+
+    constructor(public name: string = '') {}
+
+    setParent(parent: Node | null) { this.parent = parent; }
+    setSiblingIndex(_index: number) {}
+    setPosition(x: number, y: number, z: number = 0) { this.position = { x, y, z }; }
+    setScale(x: number, y: number, z: number = 1) { this.scale = { x, y, z }; }
+    getComponent(_type: any): any { return null; }
+    on(_event: string, _callback: Function) {}
+    off(_event: string, _callback?: Function) {}
+    destroy() {}
+}
+
+export class Component {
+    node: Node = new Node();
+}
+
+export class Label extends Component { string: string = ''; }
+export class RichText extends Component { string: string = ''; }
+export class Sprite extends Component { spriteFrame: any = null; }
+export class Button extends Component {}
+export class EditBox extends Component { string: string = ''; }
+export class Canvas extends Component {}
+export class UITransform extends Component {}
+export class Asset {}
+export class JsonAsset extends Asset { json: any = null; }
+export class SpriteFrame {}
+export class AudioClip {}
+
+export class AudioSource extends Component {
+    clip: AudioClip | null = null;
+    loop: boolean = false;
+    volume: number = 1;
+    playing: boolean = false;
+    play() { this.playing = true; }
+    pause() { this.playing = false; }
+    stop() { this.playing = false; }
+    playOneShot(_clip: AudioClip, _volume?: number) {}
+}
+
+export class Vec3 {
+    constructor(public x: number = 0, public y: number = 0, public z: number = 0) {}
+}
+
+// 动画：start 时立即执行 call 回调
+class Tween {
+    private _callbacks: Function[] = [];
+    to(..._args: any[]): this { return this; }
+    by(..._args: any[]): this { return this; }
+    delay(_time: number): this { return this; }
+    call(callback: Function): this { this._callbacks.push(callback); return this; }
+    start(): this { this._callbacks.forEach(callback => callback()); return this; }
+    stop(): this { return this; }
+}
+
+export function tween(_target?: any): Tween {
+    return new Tween();
+}
+
+export const _decorator = {
+    ccclass: (_name?: string) => (target: Function) => target,
+    property: (..._args: any[]) => (_target: Object, _key: string | symbol) => {},
+};
+
+// resources 包：从 assets/resources 目录读取（只支持 JSON）
+const RESOURCES_DIR = path.resolve(__dirname, '../../assets/resources');
+
+export const resources = {
+    load(url: string, type: any, onComplete: (err: Error | null, asset: any) => void) {
+        const file = path.join(RESOURCES_DIR, `${url}.json`);
+        if (type !== JsonAsset || !fs.existsSync(file)) {
+            onComplete(new Error(`资源不存在: ${url}`), null);
+            return;
+        }
+        const asset = new JsonAsset();
+        asset.json = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        onComplete(null, asset);
+    },
+};
+
+export const director = { loadScene: () => {}, getScene: () => null };
+export const screen = { windowSize: { width: 750, height: 1334 } };
+export const view = { getVisibleSize: () => ({ width: 750, height: 1334 }) };
@@ -0,0 +1,33 @@
+/**
+ * 无画面运行环境
+ * 将 'cc' 模块指向替身，并提供核心系统用到的浏览器全局对象：
+ *   window / localStorage（内存）
+ *
+ * 必须在导入任何游戏模块之前导入
+ */
+
+const Module = require('module');
+
+const CC_SHIM = require.resolve('./cc-shim');
+
+// 'cc' -> 替身模块
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request: string, ...args: any[]) {
+    return request === 'cc' ? CC_SHIM : resolveFilename.call(this, request, ...args);
+};
+
+// 内存存储，每次运行互不影响
+class MemoryStorage {
+    private _items: Map<string, string> = new Map();
+
+    get length(): number { return this._items.size; }
+    key(index: number): string | null { return Array.from(this._items.keys())[index] ?? null; }
+    getItem(key: string): string | null { return this._items.get(key) ?? null; }
+    setItem(key: string, value: string) { this._items.set(key, String(value)); }
+    removeItem(key: string) { this._items.delete(key); }
+    clear() { this._items.clear(); }
+}
+
+const g = globalThis as any;
+g.window = g;
+g.localStorage = new MemoryStorage();
@@ -0,0 +1,208 @@
+/**
+ * 无画面通关
+ * 不加载场景，直接驱动 StoryManager / DialogSystem / CharacterSystem / FlagManager：
+ * 文本立即显示完整并进入下一句，场景效果立即完成，选项按脚本或策略选择
+ */
+
+import './env';
+
+import { Node, Label, RichText } from './cc-shim';
+import { StoryNode, Chapter } from '../../assets/scripts/core/StoryTypes';
+import { StoryManager } from '../../assets/scripts/core/StoryManager';
+import { GameStateMachine, GameState } from '../../assets/scripts/core/GameStateMachine';
+import { DialogSystem, DisplayChoice } from '../../assets/scripts/core/DialogSystem';
+import { CharacterSystem, EndingConfig } from '../../assets/scripts/core/CharacterSystem';
+import { FlagManager } from '../../assets/scripts/core/FlagManager';
+import { ResourceManager } from '../../assets/scripts/core/ResourceManager';
+import { SettingsManager } from '../../assets/scripts/core/SettingsManager';
+import { GlobalProgressManager } from '../../assets/scripts/core/GlobalProgressManager';
+import { I18nManager } from '../../assets/scripts/core/I18nManager';
+import { GalleryManager } from '../../assets/scripts/core/GalleryManager';
+import { PlayerManager } from '../../assets/scripts/core/PlayerManager';
+import { VariableStore } from '../../assets/scripts/core/VariableStore';
+import { InventorySystem } from '../../assets/scripts/core/InventorySystem';
+import { SceneEffects } from '../../assets/scripts/core/SceneEffects';
+import { StageManager } from '../../assets/scripts/core/StageManager';
+import { EventEmitter } from '../../assets/scripts/core/EventEmitter';
+import { RandomService, createRandom } from '../../assets/scripts/core/RandomService';
+import {
+    PlaythroughScenario, PlaythroughResult, DEFAULT_MAX_STEPS, pickChoice,
+} from '../../assets/scripts/tools/StoryScenario';
+
+// 一次通关的选项来源（场景中与剧情无关的字段不需要）
+export interface PlaythroughOptions extends Pick<PlaythroughScenario, 'start' | 'choices' | 'policy' | 'maxSteps' | 'seed'> {
+    random?: () => number;                           // 随机策略的随机数，缺省按 seed 生成（游戏内随机数流也使用 seed）
+    onChapterCompleted?: (chapterId: string) => void; // 章节结束、进入下一章之前（可在此安排章节间的活动）
+}
+
+// 超过此时间没有进入新节点视为卡住（效果立即完成，只有带选项的对话会等待 500ms）
+const STALL_TIMEOUT = 2000;
+
+let initialized = false;
+
+/**
+ * 初始化剧情相关系统（只需一次）
+ */
+export async function initHeadlessGame() {
+    if (initialized) return;
+
+    SettingsManager.instance.init();
+    GlobalProgressManager.instance.init();
+    ResourceManager.instance.init();
+    await I18nManager.instance.init(SettingsManager.instance.get('language'));
+    await CharacterSystem.instance.init();
+    PlayerManager.instance.init();
+    await StoryManager.instance.init();
+    await GalleryManager.instance.init();
+    InventorySystem.instance.init();
+    FlagManager.instance.init();
+    VariableStore.instance.init();
+
+    DialogSystem.instance.init(new Node('DialogBox'), new Label(), new RichText(), new Node('Characters'), new Node('Choices'));
+    SceneEffects.instance.setInstant(true);
+
+    initialized = true;
+}
+
+/**
+ * 重置为新游戏状态，全局进度也清除，保证每次通关互不影响
+ */
+function resetGame(seed: number) {
+    CharacterSystem.instance.reset();
+    PlayerManager.instance.reset();
+    FlagManager.instance.reset();
+    VariableStore.instance.reset();
+    SceneEffects.instance.reset();
+    StageManager.instance.reset();
+    InventorySystem.instance.reset();
+    StoryManager.instance.reset();
+    RandomService.instance.reset(seed);
+    GlobalProgressManager.instance.clear();
+
+    // 与新游戏相同：经主菜单进入游戏状态
+    const stateMachine = GameStateMachine.instance;
+    stateMachine.reset();
+    [GameState.TITLE, GameState.MAIN_MENU, GameState.PLAYING].forEach(state => stateMachine.changeState(state));
+}
+
+/**
+ * 从起始章节通关到剧情结束（或中途停止），返回最终状态
+ */
+export async function runPlaythrough(options: PlaythroughOptions): Promise<PlaythroughResult> {
+    await initHeadlessGame();
+    resetGame(options.seed ?? 1);
+
+    const story = StoryManager.instance;
+    const dialog = DialogSystem.instance;
+    const script = [...(options.choices || [])];
+    const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+    const random = options.random || createRandom(options.seed ?? 1);
+
+    const result: PlaythroughResult = {
+        completed: false,
+        ending: null,
+        endings: [],
+        favor: {},
+        flags: {},
+        choices: [],
+        path: [],
+    };
+
+    return new Promise(resolve => {
+        let finished = false;
+        let stallTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const watch = () => {
+            clearTimeout(stallTimer);
+            stallTimer = setTimeout(() => finish(`剧情停止推进: ${result.path[result.path.length - 1] || '未开始'}`), STALL_TIMEOUT);
+        };
+
+        // 文本：先显示完整（快进打字），没有选项时进入下一句
+        const advance = (node: StoryNode) => {
+            if (finished || story.getProgress().node !== node.id) return;
+            dialog.next();
+            if (!node.choices?.length) {
+                dialog.next();
+            }
+        };
+
+        // 选项：脚本优先，脚本用完后按策略
+        const choose = (choices: DisplayChoice[]) => {
+            if (finished) return;
+            const nodeId = result.path[result.path.length - 1];
+
+            let choice: DisplayChoice | undefined;
+            if (script.length > 0) {
+                const id = script.shift()!;
+                choice = choices.find(c => c.id === id);
+                if (!choice) {
+                    finish(`${nodeId} 没有可用的选项 ${id}（可选: ${choices.map(c => c.id).join(', ')}）`);
+                    return;
+                }
+            } else if (options.policy) {
+                choice = pickChoice(options.policy, choices, random);
+                if (!choice) {
+                    finish(`${nodeId} 没有可用的选项`);
+                    return;
+                }
+            } else {
+                finish(`${nodeId} 脚本选项已用完`);
+                return;
+            }
+
+            result.choices.push(choice.id);
+            dialog.selectChoice(choice.id);
+        };
+
+        const listeners: Array<[EventEmitter, string, (data: any) => void]> = [
+            [story, 'nodeEntering', (node: StoryNode) => {
+                result.path.push(`${story.getProgress().chapter}/${node.id}`);
+                if (result.path.length > maxSteps) {
+                    finish(`经过的节点超过 ${maxSteps} 个`);
+                } else {
+                    watch();
+                }
+            }],
+            [story, 'chapterCompleted', (chapterId: string) => options.onChapterCompleted?.(chapterId)],
+            [story, 'endingStarted', (ending: EndingConfig) => result.endings.push(ending.id)],
+            [story, 'storyEnded', (ending: EndingConfig | null) => {
+                result.completed = true;
+                result.ending = ending?.id ?? null;
+                finish();
+            }],
+            [story, 'chapterLocked', (chapter: Chapter) => finish(`章节未解锁: ${chapter.id}`)],
+            // 在事件处理结束后再推进，避免在StoryManager播放节点的调用栈中递归
+            [dialog, 'lineShown', ({ node }) => setImmediate(() => advance(node))],
+            [dialog, 'choicesShown', (choices: DisplayChoice[]) => setImmediate(() => choose(choices))],
+        ];
+
+        const onRejection = (reason: any) => finish(`运行出错: ${reason instanceof Error ? reason.message : reason}`);
+
+        const finish = (error?: string) => {
+            if (finished) return;
+            finished = true;
+
+            clearTimeout(stallTimer);
+            listeners.forEach(([emitter, event, callback]) => emitter.off(event, callback));
+            process.off('unhandledRejection', onRejection);
+            dialog.hide();
+
+            if (error) result.error = error;
+            for (const character of CharacterSystem.instance.getAllCharacters()) {
+                result.favor[character.id] = character.favor;
+            }
+            result.flags = { ...FlagManager.instance.exportFullData(), ...story.exportData().localFlags };
+
+            resolve(result);
+        };
+
+        listeners.forEach(([emitter, event, callback]) => emitter.on(event, callback));
+        process.on('unhandledRejection', onRejection);
+        watch();
+
+        const start = options.start || story.getChapters()[0]?.id;
+        story.playChapter(start).then(ok => {
+            if (!ok) finish(`无法开始章节: ${start}`);
+        }, onRejection);
+    });
+}
@@ -0,0 +1,58 @@
+/**
+ * 剧情结构检查脚本
+ * 校验story.json并检查节点图，存在错误时以非零状态退出
+ *
+ * 用法: npx tsx scripts/lint-story.ts [story.json] [characters.json]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseStoryConfig, formatSchemaError } from '../assets/scripts/core/StorySchema';
+import { lintStory, formatLintIssue } from '../assets/scripts/tools/StoryLinter';
+
+const CONFIG_DIR = path.resolve(__dirname, '../assets/resources/data/game-config');
+
+function readJson(file: string): any {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+function main(): number {
+    const storyFile = process.argv[2] || path.join(CONFIG_DIR, 'story.json');
+    const charactersFile = process.argv[3] || path.join(CONFIG_DIR, 'characters.json');
+
+    const { config, errors } = parseStoryConfig(readJson(storyFile));
+    if (!config) {
+        errors.forEach(error => console.error(`[错误] ${formatSchemaError(error)}`));
+        console.error(`\n❌ ${path.basename(storyFile)} 格式校验失败: ${errors.length}个错误`);
+        return 1;
+    }
+
+    // 角色ID与结局与CharacterSystem使用同一份角色配置
+    const characters: any[] = readJson(charactersFile).characters;
+    const characterIds: string[] = characters.map(c => c.id);
+    const endings = characters.flatMap(c => c.endings || []);
+
+    // 画廊配置可选，存在时检查解锁目标
+    const galleryFile = path.join(CONFIG_DIR, 'gallery.json');
+    const cgIds = fs.existsSync(galleryFile) ? readJson(galleryFile).cgs.map((cg: any) => cg.id) : undefined;
+
+    const issues = lintStory(config, { characterIds, endings, cgIds });
+    issues.forEach(issue => {
+        const log = issue.severity === 'error' ? console.error : console.warn;
+        log(formatLintIssue(issue));
+    });
+
+    const errorCount = issues.filter(i => i.severity === 'error').length;
+    const warningCount = issues.length - errorCount;
+    const nodeCount = config.chapters.reduce((sum, c) => sum + Object.keys(c.nodes).length, 0);
+
+    if (errorCount > 0) {
+        console.error(`\n❌ 剧情检查失败: ${errorCount}个错误, ${warningCount}个警告`);
+        return 1;
+    }
+
+    console.log(`✅ 剧情检查通过: ${config.chapters.length}个章节, ${nodeCount}个节点, ${warningCount}个警告`);
+    return 0;
+}
+
+process.exit(main());
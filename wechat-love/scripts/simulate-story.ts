@@ -0,0 +1,84 @@
+/**
+ * 剧情通关模拟脚本
+ * 不启动引擎，按场景文件中的脚本选项或策略通关，并与期望的结局、好感度、标志位、经过节点比对
+ * 任一场景失败时以非零状态退出
+ *
+ * 用法: npx tsx scripts/simulate-story.ts [场景文件或目录...] [--verbose] [--path]
+ *   缺省运行 scripts/scenarios 下的所有场景
+ *   --verbose  输出游戏系统日志
+ *   --path     输出经过的节点
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { runPlaythrough } from './headless/playthrough';
+import {
+    PlaythroughScenario, ScenarioReport, parseScenario, checkScenario, formatScenarioReport,
+} from '../assets/scripts/tools/StoryScenario';
+
+const SCENARIO_DIR = path.resolve(__dirname, 'scenarios');
+
+// 输出报告使用原始日志函数，游戏系统日志默认静默
+const log = console.log;
+const error = console.error;
+
+function collectFiles(targets: string[]): string[] {
+    return targets.flatMap(target => fs.statSync(target).isDirectory()
+        ? fs.readdirSync(target).filter(f => f.endsWith('.json')).sort().map(f => path.join(target, f))
+        : [target]);
+}
+
+function silence() {
+    console.log = () => {};
+    console.warn = () => {};
+    console.error = () => {};
+}
+
+async function main(): Promise<number> {
+    const args = process.argv.slice(2);
+    const verbose = args.includes('--verbose');
+    const showPath = args.includes('--path');
+    const targets = args.filter(a => !a.startsWith('--'));
+
+    const files = collectFiles(targets.length > 0 ? targets : [SCENARIO_DIR]);
+    if (files.length === 0) {
+        error('❌ 没有找到场景文件');
+        return 1;
+    }
+
+    const scenarios: Array<{ file: string; scenario: PlaythroughScenario }> = [];
+    let invalid = 0;
+    for (const file of files) {
+        const { scenario, errors } = parseScenario(JSON.parse(fs.readFileSync(file, 'utf-8')));
+        if (!scenario) {
+            errors.forEach(e => error(`[错误] [${path.basename(file)}] ${e}`));
+            invalid++;
+        } else {
+            scenarios.push({ file, scenario });
+        }
+    }
+
+    if (!verbose) silence();
+
+    const reports: ScenarioReport[] = [];
+    for (const { scenario } of scenarios) {
+        const report = checkScenario(scenario, await runPlaythrough(scenario));
+        reports.push(report);
+
+        log(formatScenarioReport(report));
+        if (showPath) {
+            log(`   节点: ${report.result.path.join(' → ')}`);
+        }
+    }
+
+    const failed = reports.filter(r => !r.passed).length + invalid;
+    if (failed > 0) {
+        error(`\n❌ 通关模拟失败: ${failed}/${files.length}个场景未通过`);
+        return 1;
+    }
+
+    log(`\n✅ 通关模拟通过: ${reports.length}个场景`);
+    return 0;
+}
+
+main().then(code => process.exit(code));
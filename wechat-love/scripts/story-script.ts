@@ -0,0 +1,90 @@
+/**
+ * 剧情脚本转换脚本
+ *   compile    将剧情脚本编译为章节，按章节ID替换或追加到story.json（公共节点按节点ID合并）
+ *   decompile  将story.json反编译为剧情脚本，未指定输出文件时打印到标准输出
+ *
+ * 用法:
+ *   npx tsx scripts/story-script.ts compile <脚本文件> [story.json]
+ *   npx tsx scripts/story-script.ts decompile [story.json] [脚本文件]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseStoryConfig, formatSchemaError } from '../assets/scripts/core/StorySchema';
+import { compileStoryScript, decompileStory, formatScriptError } from '../assets/scripts/tools/StoryScript';
+
+const STORY_FILE = path.resolve(__dirname, '../assets/resources/data/game-config/story.json');
+
+function readJson(file: string): any {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+function compile(scriptFile: string, storyFile: string): number {
+    const { chapters, commonNodes, errors } = compileStoryScript(fs.readFileSync(scriptFile, 'utf-8'));
+    if (!chapters) {
+        errors.forEach(error => console.error(`[错误] ${formatScriptError(error, path.basename(scriptFile))}`));
+        console.error(`\n❌ 编译失败: ${errors.length}个错误`);
+        return 1;
+    }
+
+    // 保留story.json中的其他章节与字段
+    const story = fs.existsSync(storyFile) ? readJson(storyFile) : { chapters: [] };
+    for (const chapter of chapters) {
+        const index = story.chapters.findIndex((c: any) => c.id === chapter.id);
+        if (index === -1) {
+            story.chapters.push(chapter);
+        } else {
+            story.chapters[index] = chapter;
+        }
+    }
+    if (commonNodes) {
+        story.commonNodes = { ...story.commonNodes, ...commonNodes };
+    }
+
+    fs.writeFileSync(storyFile, JSON.stringify(story, null, 4) + '\n');
+
+    const nodeCount = chapters.reduce((sum, c) => sum + Object.keys(c.nodes).length, 0);
+    console.log(`✅ 编译完成: ${chapters.length}个章节, ${nodeCount}个节点 -> ${path.basename(storyFile)}`);
+    return 0;
+}
+
+function decompile(storyFile: string, scriptFile?: string): number {
+    const { config, errors } = parseStoryConfig(readJson(storyFile));
+    if (!config) {
+        errors.forEach(error => console.error(`[错误] ${formatSchemaError(error)}`));
+        console.error(`\n❌ ${path.basename(storyFile)} 格式校验失败: ${errors.length}个错误`);
+        return 1;
+    }
+
+    // 反编译原始数据，避免写出校验时补全的默认多语言键
+    const { script, warnings } = decompileStory(readJson(storyFile));
+    warnings.forEach(warning => console.warn(`[警告] ${warning}`));
+
+    if (!scriptFile) {
+        process.stdout.write(script);
+        return 0;
+    }
+
+    fs.writeFileSync(scriptFile, script);
+    console.log(`✅ 反编译完成: ${config.chapters.length}个章节, ${warnings.length}个警告 -> ${path.basename(scriptFile)}`);
+    return 0;
+}
+
+function main(): number {
+    const [command, ...args] = process.argv.slice(2);
+
+    switch (command) {
+        case 'compile':
+            if (!args[0]) break;
+            return compile(args[0], args[1] || STORY_FILE);
+        case 'decompile':
+            return decompile(args[0] || STORY_FILE, args[1]);
+    }
+
+    console.error('用法:\n'
+        + '  npx tsx scripts/story-script.ts compile <脚本文件> [story.json]\n'
+        + '  npx tsx scripts/story-script.ts decompile [story.json] [脚本文件]');
+    return 1;
+}
+
+process.exit(main());
@@ -10,7 +10,7 @@ PROJECT_DIR="/root/.openclaw/workspace/wechat-love"
 ERRORS=0
 
 # 1. 检查目录结构
-echo "📁 [1/5] 检查目录结构..."
+echo "📁 [1/6] 检查目录结构..."
 REQUIRED_DIRS=(
     "assets/scripts/core"
     "assets/scripts/ui"
@@ -18,7 +18,7 @@ REQUIRED_DIRS=(
     "assets/resources/characters"
     "assets/resources/backgrounds"
     "assets/resources/audio"
-    "assets/data/game-config"
+    "assets/resources/data/game-config"
     "docs"
 )
 
@@ -33,7 +33,7 @@ done
 echo ""
 
 # 2. 检查核心脚本文件
-echo "📝 [2/5] 检查核心脚本文件..."
+echo "📝 [2/6] 检查核心脚本文件..."
 CORE_FILES=(
     "assets/scripts/core/GameStateMachine.ts"
     "assets/scripts/core/DialogSystem.ts"
@@ -63,11 +63,11 @@ done
 echo ""
 
 # 3. 检查配置文件
-echo "⚙️  [3/5] 检查配置文件..."
+echo "⚙️  [3/6] 检查配置文件..."
 CONFIG_FILES=(
-    "assets/data/game-config/characters.json"
-    "assets/data/game-config/story.json"
-    "assets/data/game-config/numbers.json"
+    "assets/resources/data/game-config/characters.json"
+    "assets/resources/data/game-config/story.json"
+    "assets/resources/data/game-config/numbers.json"
 )
 
 for file in "${CONFIG_FILES[@]}"; do
@@ -80,8 +80,19 @@ for file in "${CONFIG_FILES[@]}"; do
 done
 echo ""
 
-# 4. 检查资源文件
-echo "🖼️  [4/5] 检查资源文件..."
+# 4. 检查剧情结构
+echo "🔗 [4/6] 检查剧情结构..."
+if ! command -v npx > /dev/null 2>&1; then
+    echo "  ⚠️  未安装Node.js，跳过剧情检查"
+elif ! npx --no-install tsx --version > /dev/null 2>&1; then
+    echo "  ⚠️  未安装tsx（npm install -g tsx），跳过剧情检查"
+elif ! npx --no-install tsx "$PROJECT_DIR/scripts/lint-story.ts"; then
+    ERRORS=$((ERRORS + 1))
+fi
+echo ""
+
+# 5. 检查资源文件
+echo "🖼️  [5/6] 检查资源文件..."
 REQUIRED_RES=(
     "assets/resources/backgrounds/bg_title.jpg"
     "assets/resources/characters/heroine_1/normal.png"
@@ -103,8 +114,8 @@ echo "  📊 角色立绘: $CHAR_COUNT 个"
 echo "  📊 背景图片: $BG_COUNT 个"
 echo ""
 
-# 5. 检查Git状态
-echo "📦 [5/5] 检查Git状态..."
+# 6. 检查Git状态
+echo "📦 [6/6] 检查Git状态..."
 cd "$PROJECT_DIR"
 if git rev-parse --git-dir > /dev/null 2>&1; then
     COMMITS=$(git rev-list --count HEAD)